@@ -0,0 +1,7 @@
+"use client"
+
+import { ExaminerConsole } from "@/components/examiner-console"
+
+export default function ExaminerPage() {
+  return <ExaminerConsole />
+}
@@ -1,7 +1,91 @@
 "use client"
 
-import { useState, useEffect, useRef, useCallback } from "react"
-import { Play, Pause, History, Download, ArrowLeft, Delete, Check, RotateCw } from "lucide-react"
+import { useState, useEffect, useRef, useCallback, useMemo } from "react"
+import {
+  Play,
+  Pause,
+  History,
+  Download,
+  Upload,
+  ArrowLeft,
+  Delete,
+  Check,
+  RotateCw,
+  Volume2,
+  UserPlus,
+  User,
+  Layers,
+  Plus,
+  ChevronUp,
+  ChevronDown,
+  Pencil,
+  MonitorSmartphone,
+} from "lucide-react"
+import { createStaircase, updateStaircase, estimateThreshold } from "@/lib/staircase"
+import { expectedAnswer, RECALL_ORDER_LABELS } from "@/lib/recall"
+import {
+  scoreAnswer,
+  summarizeScores,
+  summarizeVerbal,
+  normalizeTranscript,
+  VERBAL_SCORE_LABELS,
+} from "@/lib/scoring"
+import { createTrialTiming, now, snapshotTiming, summarizeLatency, firstKeyLatency, responseTime } from "@/lib/latency"
+import { runSequencePresentation, summarizeSequence } from "@/lib/presentation"
+import { runSpokenSequence, isSpeechSupported } from "@/lib/speech"
+import { createSession, PAUSABLE_PHASES } from "@/lib/session"
+import { createRandom, deriveSeed, randomSeed, MAX_SEED } from "@/lib/random"
+import { createStimulusGenerator, checkConstraints } from "@/lib/stimulus"
+import { alphabetChars, ALPHABET_LABELS } from "@/lib/alphabets"
+import {
+  generateAnzan,
+  sumOperands,
+  serializeOperands,
+  parseOperands,
+  formatOperand,
+  formatExpression,
+  maxAnswerLength,
+} from "@/lib/anzan"
+import {
+  generateNbackSequence,
+  isNbackTarget,
+  classifyNback,
+  summarizeNback,
+  nextNbackLevel,
+  NBACK_OUTCOME_LABELS,
+  MIN_NBACK_LEVEL,
+  MAX_NBACK_LEVEL,
+} from "@/lib/nback"
+import {
+  createArithmeticProblem,
+  createCountbackStart,
+  createTargetPosition,
+  summarizeDistractor,
+  DISTRACTOR_LABELS,
+  COUNTBACK_STEP,
+  TARGET_MOVE_MS,
+} from "@/lib/distractor"
+import {
+  loadProfiles,
+  saveProfiles,
+  saveActiveProfileId,
+  createProfile,
+  removeProfileData,
+  settingsKey,
+} from "@/lib/profiles"
+import { loadHistory, addHistoryRecord, clearHistory, loadQuarantined, clearQuarantined } from "@/lib/history-db"
+import { buildBackup, parseBackup, planImport, applyImport } from "@/lib/backup"
+import { toCsv, csvBlob } from "@/lib/csv"
+import {
+  BUILT_IN_PRESETS,
+  createPreset,
+  findActivePreset,
+  loadPresets,
+  savePresets,
+} from "@/lib/presets"
+import { BUILT_IN_PROGRAMS, createProgram, evaluateBlock, loadPrograms, savePrograms } from "@/lib/programs"
+import { HistoryDashboard } from "@/components/history-dashboard"
+import { openPairChannel, toPairedResult, EXAMINER_PATH, IDLE_STATUS } from "@/lib/pairing"
 
 /**
  * Flash Number Trainer v1.1
@@ -14,16 +98,48 @@ import { Play, Pause, History, Download, ArrowLeft, Delete, Check, RotateCw } fr
 // --- Constants & Defaults ---
 
 const DEFAULT_SETTINGS = {
-  mode: "sequence", // 'single' | 'sequence' (現在のUIではsequenceで桁数制御する形に統合)
+  mode: "sequence", // 'single' (1桁ずつ逐次表示) | 'sequence' (数字列を一括表示) | 'anzan' (フラッシュ暗算) | 'nback'
   digits: 4,
   displaySec: 0.5,
+  digitOnSec: 0.5, // single: 1桁あたりの表示時間
+  digitGapSec: 0.25, // single: 桁間の空白時間
+  anzanCount: 5, // anzan: 1問あたりの口数（数の個数）
+  anzanDigits: 1, // anzan: 1口の桁数
+  anzanOnSec: 0.5, // anzan: 1口の表示時間
+  anzanGapSec: 0.25, // anzan: 口と口の間の空白時間
+  anzanSubtract: false, // anzan: 引き算を混ぜる
+  nbackLevel: 2, // nback: N（何個前と比べるか）
+  nbackTrials: 20, // nback: 1セットの項目数
+  nbackDigits: 1, // nback: 1項目の桁数
+  nbackOnSec: 0.5, // nback: 1項目の表示時間
+  nbackIntervalSec: 2.0, // nback: 項目を消してから次の項目までの時間（この間も反応できる）
+  nbackAutoLevel: false, // nback: セットの成績で次のセットの N を自動調整する
+  mask: "off", // 'off' | 'hash' | 'noise' (刺激消去後の逆向マスク)
+  maskSec: 0.2,
+  maskDelaySec: 0.0, // 刺激消去からマスク表示までの空白
+  modality: "visual", // 'visual' | 'audio' | 'both'
+  voiceLang: "ja-JP", // 'ja-JP' | 'en-US'
+  speechIntervalSec: 1.0, // 読み上げの1桁あたり間隔
   itiSec: 1.0,
+  distractor: "off", // 'off' | 'arithmetic' | 'target' | 'countback' (消去後・回答前の妨害課題)
+  distractorSec: 5, // 妨害課題の時間
   trialsPerSet: 5,
-  numberRange: "0-9", // '0-9' | '1-9'
-  answerMode: "keypad", // 'keypad' | 'none'
+  alphabet: "digits", // 'digits' | 'consonants' | 'hiragana' | 'katakana' | 'alphanumeric' | 'custom'
+  customChars: "", // alphabet='custom' の文字（1文字ずつ）
+  numberRange: "0-9", // '0-9' | '1-9' (alphabet='digits' のとき)
+  noRepeatDigits: false, // 同じ数字を2回使わない
+  noAdjacentRepeat: false, // 同じ数字を続けない
+  maxRunLength: 0, // 昇順/降順の連なりの上限（0 = 制限なし）
+  noLeadingZero: false,
+  balancedDigits: false, // セッション内で数字の出現回数を均す
+  seed: null, // 乱数シード（null = 毎回ランダム）
+  answerMode: "keypad", // 'keypad' | 'none' (口頭回答。検査者が判定する)
+  recallOrder: "forward", // 'forward' | 'backward' | 'sorted'
   feedback: true,
   feedbackSec: 1.0,
   recording: false,
+  adaptive: "off", // 'off' | 'digits' | 'display' | 'both'
+  adaptiveUp: 2, // n-up/1-down の n（連続正解で難化）
 }
 
 const MIN_DIGITS = 1
@@ -31,21 +147,123 @@ const MAX_DIGITS = 8
 
 // --- Utility Functions ---
 
-const generateStimulus = (digits, range) => {
-  let numStr = ""
-  const minVal = range === "1-9" ? 1 : 0
-  const maxVal = 9
+const MASK_NOISE_GLYPHS = "#@%&$?§¥※▓▒░"
 
-  for (let i = 0; i < digits; i++) {
-    // range='1-9'のときは全桁1-9
-    const digit = Math.floor(Math.random() * (maxVal - minVal + 1)) + minVal
-    numStr += digit.toString()
+const generateMask = (type, length) => {
+  if (type === "hash") return "#".repeat(length)
+  let mask = ""
+  for (let i = 0; i < length; i++) {
+    mask += MASK_NOISE_GLYPHS[Math.floor(Math.random() * MASK_NOISE_GLYPHS.length)]
   }
-  return numStr
+  return mask
 }
 
+// 回答キー（テンキー含む）を文字セットの文字に変換。セットにない文字は null
+// 英字は大文字として扱う。かなは画面のキーパッドから入力する
+const readAnswerKey = (e, chars) => {
+  const key = /^Numpad[0-9]$/.test(e.code) ? e.code.slice(-1) : e.key
+  if (key.length !== 1) return null
+  const upper = key.toUpperCase()
+  if (chars.includes(upper)) return upper
+  return chars.includes(key) ? key : null
+}
+
+// 入力欄での文字入力や修飾キー付きの操作はショートカットとして扱わない
+const isShortcutTarget = (e) => {
+  if (e.ctrlKey || e.metaKey || e.altKey) return false
+  const tag = e.target?.tagName
+  return tag !== "INPUT" && tag !== "TEXTAREA" && tag !== "SELECT"
+}
+
+const downloadBlob = (blob, filename) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.setAttribute("href", url)
+  link.setAttribute("download", filename)
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+const todayStamp = () => new Date().toISOString().slice(0, 10)
+
 const formatSec = (val) => `${Number(val).toFixed(2)}s`
 
+const MODE_LABELS = { sequence: "数字列", single: "単発", anzan: "暗算", nback: "N-back" }
+
+// 口頭回答の判定キー（検査者用）
+const VERBAL_SCORE_KEYS = { 1: "correct", 2: "partial", 3: "incorrect" }
+
+const FAIL_ACTION_LABELS = { repeat: "やり直し", next: "次へ進む", end: "終了" }
+
+// プログラムのブロック内容（設定の上書きを適用した結果）を1行で表す
+const describeBlock = (overrides, settings) => {
+  const s = { ...settings, ...overrides }
+  if (s.mode === "nback") {
+    return `${s.nbackLevel}-back / ${s.nbackOnSec}s+${s.nbackIntervalSec}s × ${s.nbackTrials}項目`
+  }
+  if (s.mode === "anzan") {
+    return `暗算 ${s.anzanDigits}桁×${s.anzanCount}口 / ${s.anzanOnSec}s+${s.anzanGapSec}s × ${s.trialsPerSet}問`
+  }
+  const display = s.mode === "single" ? `${s.digitOnSec}s+${s.digitGapSec}s` : formatSec(s.displaySec)
+  return `${s.digits}桁 / ${display} × ${s.trialsPerSet}問`
+}
+
+// 履歴カードの見出し（桁数・口数・N。プログラムはブロックの桁数の推移）
+const describeSessionLevel = (h) => {
+  const s = h.settings
+  if (h.program) return `${[...new Set(h.program.blocks.map((b) => ({ ...s, ...b.overrides }).digits))].join("→")}桁`
+  if (s.mode === "nback") return `${s.nbackLevel}-back`
+  if (s.mode === "anzan") return `${s.anzanDigits}桁×${s.anzanCount}口`
+  return `${s.digits}桁`
+}
+
+// 表示時間（逐次表示は表示+空白）と問題間隔
+const describeTiming = (s) => {
+  if (s.mode === "nback") return `${s.nbackOnSec}s+${s.nbackIntervalSec}s`
+  if (s.mode === "anzan") return `${s.anzanOnSec}s+${s.anzanGapSec}s / ITI ${s.itiSec}s`
+  if (s.mode === "single") return `${s.digitOnSec}s+${s.digitGapSec}s / ITI ${s.itiSec}s`
+  return `${s.displaySec}s / ITI ${s.itiSec}s`
+}
+
+// 数字列・単発（記憶範囲の課題）か。フラッシュ暗算・N-back は文字セット・制約・再生順序・階段法を使わない
+const isSpanMode = (settings) => settings.mode === "sequence" || settings.mode === "single"
+
+// 数字列の制約を満たせない設定なら理由を返す（桁数が増える適応型は上限桁数で確認する）
+const constraintProblem = (settings) =>
+  !isSpanMode(settings)
+    ? null
+    : checkConstraints(
+        settings.adaptive === "digits" || settings.adaptive === "both" ? MAX_DIGITS : settings.digits,
+        alphabetChars(settings),
+        settings,
+      )
+
+// 適応型（階段法）で実施するか
+const isAdaptiveRun = (settings) => settings.adaptive !== "off" && isSpanMode(settings)
+
+// プログラム全体の N-back 集計（全ブロックが同じ N の N-back の場合のみ。N が混在する場合はブロックごとの集計だけ）
+const summarizeProgramNback = (blocks, results) => {
+  const levels = new Set(blocks.map((b) => b.nback?.level ?? null))
+  if (levels.size !== 1 || levels.has(null)) return null
+  return summarizeNback(results, blocks[0].nback.level)
+}
+
+const STIMULUS_CONSTRAINT_OPTIONS = [
+  { key: "noRepeatDigits", label: "同じ文字を使わない" },
+  { key: "noAdjacentRepeat", label: "同じ文字を続けない" },
+  { key: "noLeadingZero", label: "先頭を0にしない" },
+  { key: "balancedDigits", label: "文字の出現回数を均等にする" },
+]
+
+const describeCriteria = (block) => {
+  if (block.minAccuracy <= 0) return "基準なし"
+  const onFail =
+    block.onFail === "repeat" ? `やり直し(最大${block.maxAttempts}回)` : FAIL_ACTION_LABELS[block.onFail]
+  return `${block.minAccuracy}%以上で次へ / 未達: ${onFail}`
+}
+
 // --- Components ---
 
 // 1. Reusable UI Components
@@ -153,55 +371,416 @@ const NumberControl = ({
 
 export default function FlashNumberTrainer() {
   // Global State
-  const [view, setView] = useState("HOME") // HOME, SETTINGS, RUN, RESULT, HISTORY
+  const [view, setView] = useState("HOME") // HOME, SETTINGS, RUN, RESULT, HISTORY, PROGRAMS, PROGRAM_RUN
   const [settings, setSettings] = useState(DEFAULT_SETTINGS)
 
+  // Profile State (ニックネームのみのローカルプロフィール)
+  const [profiles, setProfiles] = useState([])
+  const [activeProfileId, setActiveProfileId] = useState(null) // 読み込み完了まで null
+
   // Session State
   const [sessionResults, setSessionResults] = useState([])
   const [currentHistory, setCurrentHistory] = useState([]) // 永続化された履歴
-
-  // Initialize: Load settings and history
-  useEffect(() => {
-    const savedSettings = localStorage.getItem("fnt_settings")
+  const [quarantinedCount, setQuarantinedCount] = useState(0) // 読み込めなかった履歴レコード数
+  const [historyTab, setHistoryTab] = useState("LIST") // LIST, CHARTS
+  const [programRun, setProgramRun] = useState(null) // 直近のプログラム実施（RESULT 表示用）
+  const [currentRun, setCurrentRun] = useState(null) // 実施中のセッション { settings, seed, stimuli, replayOf, preset }
+
+  // Program State (複数ブロックの訓練プログラム)
+  const [programs, setPrograms] = useState([]) // ユーザー定義のプログラム
+  const [activeProgram, setActiveProgram] = useState(null) // 実施中のプログラム
+  const [editingProgram, setEditingProgram] = useState(null) // 編集中のプログラム（下書き）
+
+  // Preset State (名前付きの設定)
+  const [presets, setPresets] = useState([]) // ユーザー定義のプリセット（並び順どおり）
+  const [appliedPresetId, setAppliedPresetId] = useState(null) // 最後に適用したプリセット
+  const [presetEditing, setPresetEditing] = useState(false) // 名前変更・削除・並べ替えモード
+  const allPresets = [...BUILT_IN_PRESETS, ...presets]
+  const activePreset = findActivePreset(allPresets, settings, appliedPresetId)
+  const activeProfileRef = useRef(null) // 非同期読み込み中の切り替え検出用
+
+  // プロフィールの設定と履歴を読み込んで切り替える
+  const activateProfile = (profileId) => {
+    let nextSettings = DEFAULT_SETTINGS
+    const savedSettings = localStorage.getItem(settingsKey(profileId))
     if (savedSettings) {
       try {
-        setSettings({ ...DEFAULT_SETTINGS, ...JSON.parse(savedSettings) })
+        nextSettings = { ...DEFAULT_SETTINGS, ...JSON.parse(savedSettings) }
       } catch (e) {
         console.error("Settings load error", e)
       }
     }
 
-    const savedHistory = localStorage.getItem("fnt_history")
-    if (savedHistory) {
-      try {
-        setCurrentHistory(JSON.parse(savedHistory))
-      } catch (e) {
-        console.error("History load error", e)
-      }
-    }
+    saveActiveProfileId(profileId)
+    activeProfileRef.current = profileId
+    setActiveProfileId(profileId)
+    setSettings(nextSettings)
+    setPrograms(loadPrograms(profileId))
+    setPresets(loadPresets(profileId))
+    setAppliedPresetId(null)
+    setPresetEditing(false)
+    setEditingProgram(null)
+    setCurrentHistory([])
+    setQuarantinedCount(0)
+
+    loadHistory(profileId)
+      .then(({ records, quarantined }) => {
+        if (activeProfileRef.current !== profileId) return
+        setCurrentHistory(records)
+        setQuarantinedCount(quarantined)
+      })
+      .catch((e) => console.error("History load error", e))
+  }
+
+  // Initialize: Load profiles (旧データは既定プロフィールへ移行), then settings and history
+  useEffect(() => {
+    const { profiles: savedProfiles, activeId } = loadProfiles()
+    setProfiles(savedProfiles)
+    activateProfile(activeId)
   }, [])
 
   // Save settings on change
   useEffect(() => {
-    localStorage.setItem("fnt_settings", JSON.stringify(settings))
-  }, [settings])
+    if (!activeProfileId) return
+    localStorage.setItem(settingsKey(activeProfileId), JSON.stringify(settings))
+  }, [settings, activeProfileId])
+
+  // 履歴は1セッションずつ IndexedDB に追記する（保存失敗時はメモリ上にだけ残し、保存できなかったことを知らせる）
+  const saveHistoryRecord = (record) => {
+    const profileId = activeProfileId
+    addHistoryRecord(profileId, record)
+      .then((saved) => {
+        if (activeProfileRef.current === profileId) setCurrentHistory((prev) => [...prev, saved])
+      })
+      .catch((e) => {
+        console.error("History save error", e)
+        if (activeProfileRef.current === profileId) setCurrentHistory((prev) => [...prev, record])
+        window.alert("今回の記録を履歴に保存できませんでした（ページを再読み込みすると消えます）")
+      })
+  }
 
-  // Save history on change (only if recording is on, but we manage logic elsewhere)
-  useEffect(() => {
-    if (settings.recording) {
-      localStorage.setItem("fnt_history", JSON.stringify(currentHistory))
-    }
-  }, [currentHistory, settings.recording])
+  const handleProfileAdd = () => {
+    const name = window.prompt("ニックネームまたはIDを入力してください（個人情報は入力しないでください）")
+    if (!name || !name.trim()) return
+    const profile = createProfile(name.trim().slice(0, 20))
+    const nextProfiles = [...profiles, profile]
+    saveProfiles(nextProfiles)
+    setProfiles(nextProfiles)
+    activateProfile(profile.id)
+  }
+
+  const handleProfileDelete = () => {
+    if (profiles.length <= 1) return
+    const profile = profiles.find((p) => p.id === activeProfileId)
+    if (!profile || !window.confirm(`「${profile.name}」の設定と履歴を削除しますか？`)) return
+    const nextProfiles = profiles.filter((p) => p.id !== profile.id)
+    removeProfileData(profile.id)
+    clearHistory(profile.id).catch((e) => console.error("History clear error", e))
+    clearQuarantined(profile.id).catch((e) => console.error("History clear error", e))
+    saveProfiles(nextProfiles)
+    setProfiles(nextProfiles)
+    activateProfile(nextProfiles[0].id)
+  }
 
   const handleStartRequest = () => {
     setView("SETTINGS")
   }
 
+  const presetSummary = () => (activePreset ? { id: activePreset.id, name: activePreset.name } : null)
+
   const handleStartTraining = () => {
+    const problem = constraintProblem(settings)
+    if (problem) {
+      window.alert(problem)
+      return
+    }
     setSessionResults([]) // Reset session
+    setProgramRun(null)
+    setCurrentRun({
+      settings,
+      seed: settings.seed ?? randomSeed(),
+      stimuli: null,
+      replayOf: null,
+      preset: presetSummary(),
+    })
     setView("RUN")
   }
 
+  // 履歴の問題列をそのまま再実施する（適応型・N の自動調整は問題列と合わないため固定レベルで行う）
+  const handleReplay = (h) => {
+    const stimuli = h.results.map((r) => r.stimulus)
+    if (!window.confirm(`${new Date(h.timestamp).toLocaleString()} の問題（${stimuli.length}問）で再実施しますか？`)) return
+    setSessionResults([])
+    setProgramRun(null)
+    setCurrentRun({
+      settings: {
+        ...DEFAULT_SETTINGS,
+        ...h.settings,
+        recording: settings.recording,
+        adaptive: "off",
+        nbackAutoLevel: false,
+        trialsPerSet: stimuli.length,
+        nbackTrials: stimuli.length,
+      },
+      seed: h.seed ?? null,
+      stimuli,
+      replayOf: h.timestamp,
+      preset: h.preset ?? null,
+    })
+    setView("RUN")
+  }
+
+  const handleRunFinish = (results) => {
+    const runSettings = currentRun.settings
+    const nback = runSettings.mode === "nback" ? summarizeNback(results, runSettings.nbackLevel) : null
+    setSessionResults(results)
+    setProgramRun(null)
+
+    // N の自動調整は次のセットの設定に反映する
+    if (nback && runSettings.nbackAutoLevel) {
+      const nextLevel = nextNbackLevel(nback)
+      setSettings((prev) => ({ ...prev, nbackLevel: nextLevel }))
+    }
+
+    // 履歴保存ロジック
+    if (runSettings.recording) {
+      const correctCount = results.filter((r) => r.isCorrect).length
+      const newRecord = {
+        timestamp: Date.now(),
+        settings: runSettings,
+        results: results, // 詳細も保存（必要であれば）
+        total: results.length,
+        correct: correctCount,
+        threshold: isAdaptiveRun(runSettings) ? estimateThreshold(results) : null,
+        scores: summarizeScores(results),
+        latency: summarizeLatency(results),
+        nback,
+        distractor: summarizeDistractor(results),
+        verbal: summarizeVerbal(results),
+        preset: currentRun.preset,
+        seed: currentRun.seed,
+        replayOf: currentRun.replayOf,
+      }
+      saveHistoryRecord(newRecord)
+    }
+    setView("RESULT")
+  }
+
+  // --- Presets ---
+
+  const updatePresets = (nextPresets) => {
+    savePresets(activeProfileId, nextPresets)
+    setPresets(nextPresets)
+  }
+
+  const handlePresetApply = (preset) => {
+    setSettings({ ...settings, ...preset.settings })
+    setAppliedPresetId(preset.id)
+  }
+
+  const handlePresetSave = () => {
+    const name = window.prompt("プリセット名を入力してください")
+    if (!name || !name.trim()) return
+    const preset = createPreset(name.trim().slice(0, 30), settings)
+    updatePresets([...presets, preset])
+    setAppliedPresetId(preset.id)
+  }
+
+  const handlePresetRename = (preset) => {
+    const name = window.prompt("新しいプリセット名を入力してください", preset.name)
+    if (!name || !name.trim()) return
+    updatePresets(presets.map((p) => (p.id === preset.id ? { ...p, name: name.trim().slice(0, 30) } : p)))
+  }
+
+  const handlePresetDelete = (preset) => {
+    if (!window.confirm(`「${preset.name}」を削除しますか？`)) return
+    updatePresets(presets.filter((p) => p.id !== preset.id))
+  }
+
+  const handlePresetMove = (index, offset) => {
+    const target = index + offset
+    if (target < 0 || target >= presets.length) return
+    const nextPresets = [...presets]
+    ;[nextPresets[index], nextPresets[target]] = [nextPresets[target], nextPresets[index]]
+    updatePresets(nextPresets)
+  }
+
+  // --- Programs ---
+
+  const handleProgramStart = (program) => {
+    const problem = program.blocks.map((b) => constraintProblem({ ...settings, ...b.overrides })).find(Boolean)
+    if (problem) {
+      window.alert(problem)
+      return
+    }
+    setSessionResults([])
+    setProgramRun(null)
+    setCurrentRun({
+      settings,
+      seed: settings.seed ?? randomSeed(),
+      stimuli: null,
+      replayOf: null,
+      preset: presetSummary(),
+    })
+    setActiveProgram(program)
+    setView("PROGRAM_RUN")
+  }
+
+  const handleProgramSave = () => {
+    const name = editingProgram.name.trim()
+    if (!name) {
+      window.alert("プログラム名を入力してください")
+      return
+    }
+    const program = { ...editingProgram, name: name.slice(0, 30) }
+    const exists = programs.some((p) => p.id === program.id)
+    const nextPrograms = exists ? programs.map((p) => (p.id === program.id ? program : p)) : [...programs, program]
+    savePrograms(activeProfileId, nextPrograms)
+    setPrograms(nextPrograms)
+    setEditingProgram(null)
+  }
+
+  const handleProgramDelete = (program) => {
+    if (!window.confirm(`「${program.name}」を削除しますか？`)) return
+    const nextPrograms = programs.filter((p) => p.id !== program.id)
+    savePrograms(activeProfileId, nextPrograms)
+    setPrograms(nextPrograms)
+  }
+
+  // 組み込みプログラムは複製してから編集する
+  const handleProgramDuplicate = (program) => {
+    const { builtIn, ...rest } = program
+    setEditingProgram({ ...rest, id: createProgram("").id, name: `${program.name} のコピー` })
+  }
+
+  const updateEditingBlock = (index, patch) => {
+    setEditingProgram((prev) => ({
+      ...prev,
+      blocks: prev.blocks.map((b, i) => (i === index ? { ...b, ...patch } : b)),
+    }))
+  }
+
+  const moveEditingBlock = (index, offset) => {
+    setEditingProgram((prev) => {
+      const blocks = [...prev.blocks]
+      const target = index + offset
+      if (target < 0 || target >= blocks.length) return prev
+      ;[blocks[index], blocks[target]] = [blocks[target], blocks[index]]
+      return { ...prev, blocks }
+    })
+  }
+
+  // プログラム全体を1件の履歴として保存する（ブロックごとの集計は program.blocks に持つ）
+  const handleProgramFinish = (blocks, completed) => {
+    const results = blocks.flatMap((b) => b.results)
+    const run = {
+      id: activeProgram.id,
+      name: activeProgram.name,
+      completed,
+      blocks: blocks.map(({ results: blockResults, ...summary }) => summary),
+    }
+    setSessionResults(results)
+    setProgramRun(run)
+
+    if (currentRun.settings.recording && results.length > 0) {
+      saveHistoryRecord({
+        timestamp: Date.now(),
+        settings: currentRun.settings,
+        results: results,
+        total: results.length,
+        correct: results.filter((r) => r.isCorrect).length,
+        threshold: null,
+        scores: summarizeScores(results),
+        latency: summarizeLatency(results),
+        nback: summarizeProgramNback(run.blocks, results),
+        distractor: summarizeDistractor(results),
+        verbal: summarizeVerbal(results),
+        preset: currentRun.preset,
+        seed: currentRun.seed,
+        program: run,
+      })
+    }
+    setView(results.length > 0 ? "RESULT" : "PROGRAMS")
+  }
+
+  // --- Keyboard shortcuts (RUN以外の画面) ---
+  // HOME: Enter 開始 / H 履歴, SETTINGS: Enter 開始 / Esc 戻る, RESULT: Enter もう一度 / Esc ホーム, HISTORY・PROGRAMS: Esc 戻る
+  const shortcutRef = useRef(null)
+  shortcutRef.current = (e) => {
+    if (!isShortcutTarget(e) || importPlan || editingProgram) return
+    const key = e.key
+    let handled = true
+
+    if (view === "HOME" && key === "Enter") handleStartRequest()
+    else if (view === "HOME" && (key === "h" || key === "H") && settings.recording) setView("HISTORY")
+    else if (view === "SETTINGS" && key === "Enter") handleStartTraining()
+    else if (view === "SETTINGS" && key === "Escape") setView("HOME")
+    else if (view === "RESULT" && key === "Enter") setView(programRun ? "PROGRAMS" : "SETTINGS")
+    else if (view === "RESULT" && key === "Escape") setView("HOME")
+    else if (view === "HISTORY" && (key === "Escape" || key === "Backspace")) setView("HOME")
+    else if (view === "PROGRAMS" && key === "Escape") setView("HOME")
+    else handled = false
+
+    if (handled) e.preventDefault()
+  }
+
+  useEffect(() => {
+    const onKeyDown = (e) => shortcutRef.current(e)
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [])
+
+  // --- Examiner console (BroadcastChannel) ---
+  // 検査者画面へ状態を送り、検査者画面からの操作を受け取る
+  // 開始は訓練以外の画面で現在の設定のまま始め、その他の操作は実施中の RunSession に渡す
+  const [examinerConnected, setExaminerConnected] = useState(false)
+  const pairRef = useRef(null)
+  const pairStatusRef = useRef(IDLE_STATUS) // 直近の状態（後から開いた検査者画面へ送り直す）
+  const runCommandRef = useRef(null) // 実施中の RunSession が登録する操作の受け口
+  const isRunning = view === "RUN" || view === "PROGRAM_RUN"
+
+  const publishStatus = useCallback((status) => {
+    pairStatusRef.current = status
+    pairRef.current?.send({ type: "status", status })
+  }, [])
+
+  const pairMessageRef = useRef(null)
+  pairMessageRef.current = (message) => {
+    if (message.type === "hello") {
+      setExaminerConnected(true)
+      pairRef.current?.send({ type: "status", status: pairStatusRef.current })
+    } else if (message.type === "bye") {
+      setExaminerConnected(false)
+    } else if (message.type === "command" && message.command.type === "start") {
+      if (!isRunning && !importPlan && !editingProgram) handleStartTraining()
+    } else if (message.type === "command") {
+      runCommandRef.current?.(message.command)
+    }
+  }
+
+  useEffect(() => {
+    const channel = openPairChannel("trainee", (message) => pairMessageRef.current(message))
+    pairRef.current = channel
+    const onPageHide = () => channel?.close()
+    window.addEventListener("pagehide", onPageHide)
+    return () => {
+      window.removeEventListener("pagehide", onPageHide)
+      channel?.close()
+    }
+  }, [])
+
+  // 訓練以外の画面では待機中として直近のセットの結果を送る
+  useEffect(() => {
+    if (isRunning) return
+    publishStatus({ ...IDLE_STATUS, results: sessionResults.map(toPairedResult) })
+  }, [isRunning, sessionResults])
+
+  const openExaminerConsole = () => {
+    window.open(EXAMINER_PATH, "fnt-examiner", "width=720,height=900")
+  }
+
+  const pairing = { connected: examinerConnected, publish: publishStatus, commandRef: runCommandRef }
+
   const normalizeDisplaySec = (nextValue) => {
     if (nextValue <= 2) return Number(nextValue.toFixed(2))
     return Math.max(3, Math.round(nextValue))
@@ -218,37 +797,304 @@ export default function FlashNumberTrainer() {
   const handleHistoryClear = () => {
     if (window.confirm("履歴を全て消去しますか？")) {
       setCurrentHistory([])
-      localStorage.removeItem("fnt_history")
+      clearHistory(activeProfileId).catch((e) => console.error("History clear error", e))
+    }
+  }
+
+  // 読み込めなかった履歴: 生データをJSONで書き出す / 破棄する
+  const exportQuarantined = async () => {
+    try {
+      const records = await loadQuarantined(activeProfileId)
+      const blob = new Blob([JSON.stringify(records, null, 2)], { type: "application/json" })
+      downloadBlob(blob, `fnt_unreadable_${todayStamp()}.json`)
+    } catch (e) {
+      console.error("Quarantine export error", e)
+      window.alert("読み込めない記録の書き出しに失敗しました")
+    }
+  }
+
+  // --- Backup / Restore (全プロフィールの設定と履歴をJSONで) ---
+  const importInputRef = useRef(null)
+  const [importPlan, setImportPlan] = useState(null) // 適用前のプレビュー
+
+  const handleBackupExport = async () => {
+    try {
+      const backup = await buildBackup(profiles)
+      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: "application/json" })
+      downloadBlob(blob, `fnt_backup_${todayStamp()}.json`)
+    } catch (e) {
+      console.error("Backup export error", e)
+      window.alert("バックアップの作成に失敗しました")
     }
   }
 
+  const handleBackupFile = async (e) => {
+    const file = e.target.files?.[0]
+    e.target.value = "" // 同じファイルを再選択できるように
+    if (!file) return
+
+    try {
+      const parsed = parseBackup(await file.text())
+      if (!parsed.ok) {
+        window.alert(`読み込めませんでした: ${parsed.error}`)
+        return
+      }
+      setImportPlan(await planImport(parsed.backup, profiles, "merge"))
+    } catch (e) {
+      console.error("Backup read error", e)
+      window.alert("バックアップの読み込みに失敗しました")
+    }
+  }
+
+  const handleImportModeChange = async (mode) => {
+    try {
+      setImportPlan(await planImport(importPlan.backup, profiles, mode))
+    } catch (e) {
+      console.error("Backup preview error", e)
+      window.alert("復元内容の確認に失敗しました")
+    }
+  }
+
+  const handleImportApply = async () => {
+    try {
+      const nextProfiles = await applyImport(importPlan, profiles)
+      setProfiles(nextProfiles)
+      setImportPlan(null)
+      activateProfile(activeProfileId)
+    } catch (e) {
+      console.error("Backup import error", e)
+      window.alert("復元に失敗しました")
+    }
+  }
+
+  const discardQuarantined = async () => {
+    if (!window.confirm("読み込めない記録を破棄しますか？（元に戻せません）")) return
+    try {
+      await clearQuarantined(activeProfileId)
+      setQuarantinedCount(0)
+    } catch (e) {
+      console.error("Quarantine clear error", e)
+      window.alert("読み込めない記録の破棄に失敗しました")
+    }
+  }
+
+  // SessionID は timestamp（バックアップの復元でも変わらず、試行ごとのCSVと結合できる）
   const exportCSV = () => {
     if (currentHistory.length === 0) return
 
-    const headers = ["Date", "Digits", "DisplayTime(s)", "ITI(s)", "TotalTrials", "CorrectCount", "Score(%)"]
+    const headers = [
+      "SessionID",
+      "Date",
+      "StimulusSet",
+      "Digits",
+      "DisplayTime(s)",
+      "ITI(s)",
+      "RecallOrder",
+      "TotalTrials",
+      "CorrectCount",
+      "Score(%)",
+      "MedianFirstKey(ms)",
+      "MedianResponse(ms)",
+      "NbackLevel",
+      "DPrime",
+      "DistractorRate(%)",
+      "VerbalCorrect",
+      "VerbalPartial",
+      "VerbalIncorrect",
+      "Preset",
+      "Program",
+      "ProgramBlocks",
+      "Seed",
+      "ReplayOf",
+    ]
     const rows = currentHistory.map((h) => [
+      h.timestamp,
       new Date(h.timestamp).toLocaleString(),
+      h.settings.alphabet === "custom" ? `custom:${h.settings.customChars}` : h.settings.alphabet || "digits",
       h.settings.digits,
       h.settings.displaySec,
       h.settings.itiSec,
+      h.settings.recallOrder || "forward",
       h.total,
       h.correct,
-      Math.round((h.correct / h.total) * 100),
+      h.total > 0 ? Math.round((h.correct / h.total) * 100) : "",
+      h.latency?.firstKeyMs ?? "",
+      h.latency?.responseMs ?? "",
+      h.nback?.level ?? "",
+      h.nback?.dPrime ?? "",
+      h.distractor?.rate ?? "",
+      h.verbal?.correct ?? "",
+      h.verbal?.partial ?? "",
+      h.verbal?.incorrect ?? "",
+      h.preset?.name ?? "",
+      h.program?.name ?? "",
+      h.program?.blocks.length ?? "",
+      h.seed ?? "",
+      h.replayOf ? new Date(h.replayOf).toLocaleString() : "",
     ])
 
-    const csvContent = "data:text/csv;charset=utf-8," + [headers.join(","), ...rows.map((e) => e.join(","))].join("\n")
+    downloadBlob(csvBlob(toCsv(headers, rows)), `fnt_history_${todayStamp()}.csv`)
+  }
+
+  // 1試行1行のCSV（セッションの全設定を各行に付ける。時刻は performance.now() 基準の ms、Keys は全キー入力の JSON）
+  const exportTrialCSV = () => {
+    if (currentHistory.length === 0) return
+
+    const settingKeys = Object.keys(DEFAULT_SETTINGS)
+    const headers = [
+      "SessionID",
+      "Date",
+      "Seed",
+      "Preset",
+      "Program",
+      "Block",
+      "Attempt",
+      "Trial",
+      "Stimulus",
+      "Expected",
+      "Input",
+      "Correct",
+      "Verbal",
+      "VerbalScore",
+      "Skipped",
+      "EffectiveDigits",
+      "EffectiveDisplay(s)",
+      "PositionCorrect",
+      "PrefixLength",
+      "EditDistance",
+      "FirstKey(ms)",
+      "Response(ms)",
+      "StimulusOnset(ms)",
+      "StimulusOffset(ms)",
+      "AnswerStart(ms)",
+      "Confirm(ms)",
+      "Keys",
+      "MeasuredDisplay(ms)",
+      "DisplayFrames",
+      "ConstraintFallback",
+      "NbackOutcome",
+      "NbackRT(ms)",
+      "DistractorItems",
+      "DistractorCorrect",
+      ...settingKeys.map((key) => `setting.${key}`),
+    ]
+
+    // プログラムの試行はブロックの上書きを適用した設定を出力する
+    const trialSettings = (h, r) => {
+      const block = h.program?.blocks.find((b) => b.block === r.block && b.attempt === r.attempt)
+      return block ? { ...h.settings, ...block.overrides } : h.settings
+    }
 
-    const encodedUri = encodeURI(csvContent)
-    const link = document.createElement("a")
-    link.setAttribute("href", encodedUri)
-    link.setAttribute("download", `fnt_history_${new Date().toISOString().slice(0, 10)}.csv`)
-    document.body.appendChild(link)
-    link.click()
-    document.body.removeChild(link)
+    const rows = currentHistory.flatMap((h) =>
+      h.results.map((r) => [
+        h.timestamp,
+        new Date(h.timestamp).toLocaleString(),
+        h.seed ?? "",
+        h.preset?.name ?? "",
+        h.program?.name ?? "",
+        r.block ?? "",
+        r.attempt ?? "",
+        r.trial,
+        r.stimulus,
+        r.expected ?? r.stimulus,
+        r.input,
+        r.isCorrect ? 1 : 0,
+        r.isVerbal ? 1 : 0,
+        r.verbalScore ?? "",
+        r.skipped ? 1 : 0,
+        r.digits ?? h.settings.digits,
+        r.displaySec ?? h.settings.displaySec,
+        r.score?.positionCorrect,
+        r.score?.prefixLength,
+        r.score?.editDistance,
+        r.timing ? firstKeyLatency(r.timing) : null,
+        r.timing ? responseTime(r.timing) : null,
+        r.timing?.stimulusOnset,
+        r.timing?.stimulusOffset,
+        r.timing?.answerStart,
+        r.timing?.confirm,
+        r.timing ? JSON.stringify(r.timing.keys) : "",
+        r.presentation?.measuredMs,
+        r.presentation?.frames,
+        r.constraintFallback ? 1 : 0,
+        r.nback ?? "",
+        r.nbackRtMs ?? "",
+        r.distractor?.items ?? "",
+        r.distractor?.correct ?? "",
+        ...settingKeys.map((key) => trialSettings(h, r)[key]),
+      ]),
+    )
+
+    downloadBlob(csvBlob(toCsv(headers, rows)), `fnt_trials_${todayStamp()}.csv`)
   }
 
   // --- Sub-Screens ---
 
+  // プリセット一覧（HOME と SETTINGS で共通）
+  const renderPresets = () => (
+    <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-100 text-left">
+      <div className="flex justify-between items-center mb-3">
+        <label className="font-bold text-gray-700 text-sm md:text-base">プリセット</label>
+        {presets.length > 0 && (
+          <button
+            onClick={() => setPresetEditing(!presetEditing)}
+            className="text-xs md:text-sm text-blue-600 font-bold px-2 py-1 rounded hover:bg-blue-50"
+          >
+            {presetEditing ? "完了" : "編集"}
+          </button>
+        )}
+      </div>
+
+      {presetEditing && presets.length > 0 ? (
+        <div className="space-y-1 mb-3">
+          {presets.map((preset, i) => (
+            <div key={preset.id} className="flex items-center gap-1 bg-gray-50 rounded-lg pl-3 pr-1 py-1">
+              <span className="flex-1 min-w-0 truncate text-sm font-bold text-gray-700">{preset.name}</span>
+              <button
+                onClick={() => handlePresetMove(i, -1)}
+                disabled={i === 0}
+                className="p-1.5 hover:bg-gray-200 rounded-full disabled:opacity-30"
+                title="上へ"
+              >
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handlePresetMove(i, 1)}
+                disabled={i === presets.length - 1}
+                className="p-1.5 hover:bg-gray-200 rounded-full disabled:opacity-30"
+                title="下へ"
+              >
+                <ChevronDown className="w-4 h-4" />
+              </button>
+              <button onClick={() => handlePresetRename(preset)} className="p-1.5 hover:bg-gray-200 rounded-full" title="名前を変更">
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button onClick={() => handlePresetDelete(preset)} className="p-1.5 hover:bg-red-100 rounded-full" title="削除">
+                <Delete className="w-4 h-4 text-red-600" />
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {allPresets.map((preset) => (
+            <button
+              key={preset.id}
+              onClick={() => handlePresetApply(preset)}
+              className={`px-3 py-1.5 rounded-full border text-xs md:text-sm transition-all ${activePreset?.id === preset.id ? "bg-blue-600 border-blue-600 text-white font-bold" : "border-gray-200 text-gray-600 hover:bg-gray-50"}`}
+            >
+              {preset.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <Button onClick={handlePresetSave} variant="ghost" size="sm" className="w-full shadow-none">
+        <Plus className="w-4 h-4 mr-1" /> 現在の設定を保存
+      </Button>
+    </div>
+  )
+
   const renderHome = () => (
     <div className="flex flex-col items-center justify-center min-h-[80vh] landscape:min-h-[70vh] p-6 md:p-8 landscape:p-4 text-center space-y-6 md:space-y-8 landscape:space-y-4 animate-fade-in">
       <div className="space-y-3 landscape:space-y-2">
@@ -271,6 +1117,31 @@ export default function FlashNumberTrainer() {
       </div>
 
       <div className="w-full max-w-sm md:max-w-md space-y-3 md:space-y-4 landscape:space-y-2">
+        <div className="flex items-center gap-2 bg-gray-50 border border-gray-200 rounded-lg p-2">
+          <User className="w-5 h-5 text-gray-500 shrink-0 ml-1" />
+          <select
+            value={activeProfileId || ""}
+            onChange={(e) => activateProfile(e.target.value)}
+            className="flex-1 min-w-0 bg-transparent text-sm md:text-base font-bold text-gray-700 py-1 focus:outline-none"
+          >
+            {profiles.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+          <button onClick={handleProfileAdd} className="p-2 hover:bg-gray-200 rounded-full" title="プロフィールを追加">
+            <UserPlus className="w-5 h-5 text-gray-600" />
+          </button>
+          {profiles.length > 1 && (
+            <button onClick={handleProfileDelete} className="p-2 hover:bg-red-100 rounded-full" title="プロフィールを削除">
+              <Delete className="w-5 h-5 text-red-600" />
+            </button>
+          )}
+        </div>
+
+        {renderPresets()}
+
         <Button
           onClick={handleStartRequest}
           variant="primary"
@@ -280,11 +1151,36 @@ export default function FlashNumberTrainer() {
           <Play className="mr-2 w-6 h-6 md:w-8 md:h-8 landscape:w-5 landscape:h-5" /> 開始する
         </Button>
 
+        <Button onClick={() => setView("PROGRAMS")} variant="secondary" size="md" className="w-full">
+          <Layers className="mr-2 w-5 h-5 md:w-6 md:h-6 landscape:w-4 landscape:h-4" /> プログラム訓練
+        </Button>
+
         {settings.recording && (
           <Button onClick={() => setView("HISTORY")} variant="secondary" size="md" className="w-full">
             <History className="mr-2 w-5 h-5 md:w-6 md:h-6 landscape:w-4 landscape:h-4" /> 履歴を見る
           </Button>
         )}
+
+        <Button onClick={openExaminerConsole} variant="secondary" size="md" className="w-full">
+          <MonitorSmartphone className="mr-2 w-5 h-5 md:w-6 md:h-6 landscape:w-4 landscape:h-4" />
+          {examinerConnected ? "検査者画面と接続中" : "検査者画面を開く"}
+        </Button>
+
+        <div className="flex gap-2">
+          <Button onClick={handleBackupExport} variant="ghost" size="sm" className="flex-1 shadow-none">
+            <Download className="mr-1 w-4 h-4" /> バックアップ
+          </Button>
+          <Button onClick={() => importInputRef.current?.click()} variant="ghost" size="sm" className="flex-1 shadow-none">
+            <Upload className="mr-1 w-4 h-4" /> 復元
+          </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleBackupFile}
+            className="hidden"
+          />
+        </div>
       </div>
       <p className="text-xs md:text-sm landscape:text-[10px] text-gray-400 absolute bottom-4 landscape:bottom-2">
         v1.1 | Login Free | Local Storage Only
@@ -299,29 +1195,284 @@ export default function FlashNumberTrainer() {
       </div>
 
       <div className="space-y-5 md:space-y-6">
+        {renderPresets()}
+
         {/* 重要設定 */}
         <div className="space-y-4 md:space-y-5">
-          <NumberControl
-            label="桁数 (Digits)"
-            value={settings.digits}
-            min={MIN_DIGITS}
-            max={MAX_DIGITS}
-            step={1}
-            onChange={(v) => setSettings({ ...settings, digits: v })}
-          />
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-1 bg-gray-100 p-1 rounded-lg">
+            {[
+              { id: "sequence", label: "数字列（一括表示）" },
+              { id: "single", label: "単発（1桁ずつ）" },
+              { id: "anzan", label: "フラッシュ暗算" },
+              { id: "nback", label: "N-back" },
+            ].map((opt) => (
+              <button
+                key={opt.id}
+                onClick={() => setSettings({ ...settings, mode: opt.id })}
+                className={`py-2 text-sm md:text-base rounded-md transition-all ${settings.mode === opt.id ? "bg-white shadow text-blue-700 font-bold" : "text-gray-500"}`}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </div>
 
-          <NumberControl
-            label="表示時間 (Display)"
-            value={settings.displaySec}
-            min={0.05}
-            max={10.0}
-            step={0.05}
-            unit="s"
-            normalizeValue={(nextValue) => normalizeDisplaySec(nextValue)}
-            formatValue={(value) => formatDisplaySec(value)}
-            stepStrategy={(currentValue, direction) => resolveDisplayStep(currentValue, direction)}
-            onChange={(v) => setSettings({ ...settings, displaySec: v })}
-          />
+          <div className="flex bg-gray-100 p-1 rounded-lg">
+            {[
+              { id: "visual", label: "視覚" },
+              { id: "audio", label: "聴覚" },
+              { id: "both", label: "視覚+聴覚" },
+            ].map((opt) => (
+              <button
+                key={opt.id}
+                onClick={() => setSettings({ ...settings, modality: opt.id })}
+                className={`flex-1 py-2 text-sm md:text-base rounded-md transition-all ${settings.modality === opt.id ? "bg-white shadow text-blue-700 font-bold" : "text-gray-500"}`}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </div>
+
+          {settings.modality !== "visual" && (
+            <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-100 space-y-4">
+              {!isSpeechSupported() && (
+                <p className="text-xs text-red-600">このブラウザは音声読み上げに対応していません</p>
+              )}
+              <div className="flex bg-gray-100 p-1 rounded-lg">
+                {[
+                  { id: "ja-JP", label: "日本語" },
+                  { id: "en-US", label: "English" },
+                ].map((opt) => (
+                  <button
+                    key={opt.id}
+                    onClick={() => setSettings({ ...settings, voiceLang: opt.id })}
+                    className={`flex-1 py-2 text-sm md:text-base rounded-md transition-all ${settings.voiceLang === opt.id ? "bg-white shadow text-blue-700 font-bold" : "text-gray-500"}`}
+                  >
+                    {opt.label}
+                  </button>
+                ))}
+              </div>
+              {settings.mode === "nback" ? (
+                <p className="text-xs text-gray-500">各項目を提示の開始時に読み上げます</p>
+              ) : settings.modality === "both" && settings.mode !== "sequence" ? (
+                <p className="text-xs text-gray-500">
+                  読み上げは{settings.mode === "anzan" ? "各数" : "各桁"}の表示に合わせて行います
+                </p>
+              ) : (
+                <NumberControl
+                  label="読み上げ間隔"
+                  value={settings.speechIntervalSec}
+                  min={0.3}
+                  max={2.0}
+                  step={0.1}
+                  unit="s"
+                  helpText="1桁を読み上げてから次の桁までの間隔"
+                  onChange={(v) => setSettings({ ...settings, speechIntervalSec: v })}
+                />
+              )}
+            </div>
+          )}
+
+          {isSpanMode(settings) && (
+            <>
+              <div className="space-y-2">
+                <div className="grid grid-cols-3 gap-1 bg-gray-100 p-1 rounded-lg">
+                  {Object.entries(ALPHABET_LABELS).map(([id, label]) => (
+                    <button
+                      key={id}
+                      onClick={() => setSettings({ ...settings, alphabet: id })}
+                      className={`py-2 text-sm md:text-base rounded-md transition-all ${settings.alphabet === id ? "bg-white shadow text-blue-700 font-bold" : "text-gray-500"}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                {settings.alphabet === "custom" && (
+                  <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+                    <label className="font-bold text-gray-700 text-sm md:text-base block mb-1">使う文字</label>
+                    <p className="text-xs text-gray-500 mb-2">1文字ずつ並べて入力（空白・読点は区切りとして無視）</p>
+                    <input
+                      type="text"
+                      value={settings.customChars}
+                      onChange={(e) => setSettings({ ...settings, customChars: e.target.value.slice(0, 60) })}
+                      placeholder="例: ABCXYZ"
+                      className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm md:text-base focus:outline-none focus:border-blue-400"
+                    />
+                    <p className="text-xs text-gray-400 mt-1">{alphabetChars(settings).length}文字</p>
+                  </div>
+                )}
+              </div>
+
+              <NumberControl
+                label={settings.alphabet === "digits" ? "桁数 (Digits)" : "文字数 (Items)"}
+                value={settings.digits}
+                min={MIN_DIGITS}
+                max={MAX_DIGITS}
+                step={1}
+                onChange={(v) => setSettings({ ...settings, digits: v })}
+              />
+            </>
+          )}
+
+          {settings.mode === "nback" ? (
+            <>
+              <NumberControl
+                label="N (何個前と比べるか)"
+                value={settings.nbackLevel}
+                min={MIN_NBACK_LEVEL}
+                max={MAX_NBACK_LEVEL}
+                step={1}
+                helpText="表示中の数が N 個前と同じなら「一致」を押します"
+                onChange={(v) => setSettings({ ...settings, nbackLevel: v })}
+              />
+
+              <NumberControl
+                label="項目数 (1セット)"
+                value={settings.nbackTrials}
+                min={10}
+                max={60}
+                step={5}
+                onChange={(v) => setSettings({ ...settings, nbackTrials: v })}
+              />
+
+              <NumberControl
+                label="1項目の桁数"
+                value={settings.nbackDigits}
+                min={1}
+                max={2}
+                step={1}
+                onChange={(v) => setSettings({ ...settings, nbackDigits: v })}
+              />
+
+              <NumberControl
+                label="1項目の表示時間"
+                value={settings.nbackOnSec}
+                min={0.1}
+                max={2.0}
+                step={0.05}
+                unit="s"
+                onChange={(v) => setSettings({ ...settings, nbackOnSec: v })}
+              />
+
+              <NumberControl
+                label="項目間の時間"
+                value={settings.nbackIntervalSec}
+                min={0.5}
+                max={5.0}
+                step={0.25}
+                unit="s"
+                helpText="項目が消えてから次の項目までの時間（この間も反応できます）"
+                onChange={(v) => setSettings({ ...settings, nbackIntervalSec: v })}
+              />
+
+              <div className="flex items-center justify-between bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+                <div>
+                  <label className="font-bold text-gray-700 text-sm md:text-base">N を自動調整</label>
+                  <p className="text-xs text-gray-500">正答率90%以上で次のセットの N を1つ上げ、70%未満で1つ下げます</p>
+                </div>
+                <button
+                  onClick={() => setSettings({ ...settings, nbackAutoLevel: !settings.nbackAutoLevel })}
+                  className={`w-12 h-6 md:w-14 md:h-7 rounded-full transition-colors relative ${settings.nbackAutoLevel ? "bg-green-500" : "bg-gray-300"}`}
+                >
+                  <div
+                    className={`absolute top-1 left-1 bg-white w-4 h-4 md:w-5 md:h-5 rounded-full transition-transform ${settings.nbackAutoLevel ? "translate-x-6 md:translate-x-7" : ""}`}
+                  />
+                </button>
+              </div>
+            </>
+          ) : settings.mode === "anzan" ? (
+            <>
+              <NumberControl
+                label="口数 (Numbers)"
+                value={settings.anzanCount}
+                min={2}
+                max={15}
+                step={1}
+                helpText="1問で順に表示する数の個数"
+                onChange={(v) => setSettings({ ...settings, anzanCount: v })}
+              />
+
+              <NumberControl
+                label="1口の桁数"
+                value={settings.anzanDigits}
+                min={1}
+                max={3}
+                step={1}
+                onChange={(v) => setSettings({ ...settings, anzanDigits: v })}
+              />
+
+              <NumberControl
+                label="1口の表示時間"
+                value={settings.anzanOnSec}
+                min={0.1}
+                max={2.0}
+                step={0.05}
+                unit="s"
+                onChange={(v) => setSettings({ ...settings, anzanOnSec: v })}
+              />
+
+              <NumberControl
+                label="口と口の間隔"
+                value={settings.anzanGapSec}
+                min={0.0}
+                max={1.0}
+                step={0.05}
+                unit="s"
+                helpText="1つの数を消してから次の数を出すまでの時間"
+                onChange={(v) => setSettings({ ...settings, anzanGapSec: v })}
+              />
+
+              <div className="flex items-center justify-between bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+                <div>
+                  <label className="font-bold text-gray-700 text-sm md:text-base">引き算を混ぜる</label>
+                  <p className="text-xs text-gray-500">途中の合計が負になる引き算は出しません</p>
+                </div>
+                <button
+                  onClick={() => setSettings({ ...settings, anzanSubtract: !settings.anzanSubtract })}
+                  className={`w-12 h-6 md:w-14 md:h-7 rounded-full transition-colors relative ${settings.anzanSubtract ? "bg-green-500" : "bg-gray-300"}`}
+                >
+                  <div
+                    className={`absolute top-1 left-1 bg-white w-4 h-4 md:w-5 md:h-5 rounded-full transition-transform ${settings.anzanSubtract ? "translate-x-6 md:translate-x-7" : ""}`}
+                  />
+                </button>
+              </div>
+            </>
+          ) : settings.mode === "single" ? (
+            <>
+              <NumberControl
+                label="1桁の表示時間"
+                value={settings.digitOnSec}
+                min={0.05}
+                max={2.0}
+                step={0.05}
+                unit="s"
+                onChange={(v) => setSettings({ ...settings, digitOnSec: v })}
+              />
+
+              <NumberControl
+                label="桁間の空白"
+                value={settings.digitGapSec}
+                min={0.0}
+                max={2.0}
+                step={0.05}
+                unit="s"
+                helpText="1桁を消してから次の桁を出すまでの時間"
+                onChange={(v) => setSettings({ ...settings, digitGapSec: v })}
+              />
+            </>
+          ) : (
+            <NumberControl
+              label="表示時間 (Display)"
+              value={settings.displaySec}
+              min={0.05}
+              max={10.0}
+              step={0.05}
+              unit="s"
+              normalizeValue={(nextValue) => normalizeDisplaySec(nextValue)}
+              formatValue={(value) => formatDisplaySec(value)}
+              stepStrategy={(currentValue, direction) => resolveDisplayStep(currentValue, direction)}
+              onChange={(v) => setSettings({ ...settings, displaySec: v })}
+            />
+          )}
         </div>
 
         {/* 詳細設定トグル (簡易実装として、常に表示しつつグループ分け) */}
@@ -331,61 +1482,255 @@ export default function FlashNumberTrainer() {
             <span className="transition group-open:rotate-180">▼</span>
           </summary>
           <div className="p-4 md:p-5 space-y-4 md:space-y-5 border-t border-gray-100">
-            <NumberControl
-              label="問題間隔 (ITI)"
-              value={settings.itiSec}
-              min={0.0}
-              max={3.0}
-              step={0.5}
-              unit="s"
-              helpText="回答完了後、次の問題までの待ち時間"
-              onChange={(v) => setSettings({ ...settings, itiSec: v })}
-            />
+            {settings.mode !== "nback" && (
+              <>
+                <NumberControl
+                  label="問題間隔 (ITI)"
+                  value={settings.itiSec}
+                  min={0.0}
+                  max={3.0}
+                  step={0.5}
+                  unit="s"
+                  helpText="回答完了後、次の問題までの待ち時間"
+                  onChange={(v) => setSettings({ ...settings, itiSec: v })}
+                />
 
-            <NumberControl
-              label="問題数 (1セット)"
-              value={settings.trialsPerSet}
-              min={1}
-              max={20}
-              step={1}
-              onChange={(v) => setSettings({ ...settings, trialsPerSet: v })}
-            />
+                <div className="space-y-2">
+                  <label className="block text-sm md:text-base font-bold text-gray-700">妨害課題 (保持期間)</label>
+                  <p className="text-xs text-gray-500">刺激が消えてから回答までの間に行い、頭の中での復唱を妨げます</p>
+                  <div className="flex bg-gray-100 p-1 rounded-lg">
+                    {[["off", "なし"], ...Object.entries(DISTRACTOR_LABELS)].map(([id, label]) => (
+                      <button
+                        key={id}
+                        onClick={() => setSettings({ ...settings, distractor: id })}
+                        className={`flex-1 py-2 text-sm md:text-base rounded-md transition-all ${settings.distractor === id ? "bg-white shadow text-blue-700 font-bold" : "text-gray-500"}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {settings.distractor !== "off" && (
+                  <NumberControl
+                    label="妨害課題の時間"
+                    value={settings.distractorSec}
+                    min={2}
+                    max={30}
+                    step={1}
+                    unit="s"
+                    onChange={(v) => setSettings({ ...settings, distractorSec: v })}
+                  />
+                )}
+
+                <NumberControl
+                  label="問題数 (1セット)"
+                  value={settings.trialsPerSet}
+                  min={1}
+                  max={20}
+                  step={1}
+                  onChange={(v) => setSettings({ ...settings, trialsPerSet: v })}
+                />
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-5">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-5">
+                  {settings.alphabet === "digits" && isSpanMode(settings) && (
+                    <div className="space-y-2">
+                      <label className="block text-sm md:text-base font-bold text-gray-700">数字範囲</label>
+                      <div className="flex bg-gray-100 p-1 rounded-lg">
+                        {["0-9", "1-9"].map((opt) => (
+                          <button
+                            key={opt}
+                            onClick={() => setSettings({ ...settings, numberRange: opt })}
+                            className={`flex-1 py-2 text-sm md:text-base rounded-md transition-all ${settings.numberRange === opt ? "bg-white shadow text-blue-700 font-bold" : "text-gray-500"}`}
+                          >
+                            {opt}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <label className="block text-sm md:text-base font-bold text-gray-700">回答方式</label>
+                    <div className="flex bg-gray-100 p-1 rounded-lg">
+                      {[
+                        { id: "keypad", label: "入力" },
+                        { id: "none", label: "口頭" },
+                      ].map((opt) => (
+                        <button
+                          key={opt.id}
+                          onClick={() => setSettings({ ...settings, answerMode: opt.id })}
+                          className={`flex-1 py-2 text-sm md:text-base rounded-md transition-all ${settings.answerMode === opt.id ? "bg-white shadow text-blue-700 font-bold" : "text-gray-500"}`}
+                        >
+                          {opt.label}
+                        </button>
+                      ))}
+                    </div>
+                    {settings.answerMode === "none" && (
+                      <p className="text-xs text-gray-500">回答後に検査者が 正答 / 部分正答 / 誤答 を判定します</p>
+                    )}
+                  </div>
+                </div>
+              </>
+            )}
+
+            {isSpanMode(settings) && (
               <div className="space-y-2">
-                <label className="block text-sm md:text-base font-bold text-gray-700">数字範囲</label>
-                <div className="flex bg-gray-100 p-1 rounded-lg">
-                  {["0-9", "1-9"].map((opt) => (
-                    <button
-                      key={opt}
-                      onClick={() => setSettings({ ...settings, numberRange: opt })}
-                      className={`flex-1 py-2 text-sm md:text-base rounded-md transition-all ${settings.numberRange === opt ? "bg-white shadow text-blue-700 font-bold" : "text-gray-500"}`}
-                    >
-                      {opt}
-                    </button>
-                  ))}
+                <label className="block text-sm md:text-base font-bold text-gray-700">刺激列の制約</label>
+                {STIMULUS_CONSTRAINT_OPTIONS.filter(
+                  (opt) => opt.key !== "noLeadingZero" || alphabetChars(settings).includes("0"),
+                ).map(
+                  (opt) => (
+                    <div key={opt.key} className="flex items-center justify-between py-1">
+                      <label className="text-gray-700 text-sm md:text-base">{opt.label}</label>
+                      <button
+                        onClick={() => setSettings({ ...settings, [opt.key]: !settings[opt.key] })}
+                        className={`w-12 h-6 md:w-14 md:h-7 rounded-full transition-colors relative ${settings[opt.key] ? "bg-green-500" : "bg-gray-300"}`}
+                      >
+                        <div
+                          className={`absolute top-1 left-1 bg-white w-4 h-4 md:w-5 md:h-5 rounded-full transition-transform ${settings[opt.key] ? "translate-x-6 md:translate-x-7" : ""}`}
+                        />
+                      </button>
+                    </div>
+                  ),
+                )}
+                <div className="flex items-center justify-between gap-3 py-1">
+                  <label className="text-gray-700 text-sm md:text-base shrink-0">昇順・降順の連続</label>
+                  <div className="flex bg-gray-100 p-1 rounded-lg flex-1 max-w-[240px]">
+                    {[
+                      { id: 0, label: "制限なし" },
+                      { id: 2, label: "2まで" },
+                      { id: 3, label: "3まで" },
+                    ].map((opt) => (
+                      <button
+                        key={opt.id}
+                        onClick={() => setSettings({ ...settings, maxRunLength: opt.id })}
+                        className={`flex-1 py-1.5 text-xs md:text-sm rounded-md transition-all ${settings.maxRunLength === opt.id ? "bg-white shadow text-blue-700 font-bold" : "text-gray-500"}`}
+                      >
+                        {opt.label}
+                      </button>
+                    ))}
+                  </div>
                 </div>
+                {constraintProblem(settings) && (
+                  <div className="text-xs md:text-sm text-amber-700 bg-amber-50 rounded-lg p-2">
+                    ⚠ {constraintProblem(settings)}
+                  </div>
+                )}
               </div>
+            )}
 
+            <div className="space-y-2">
+              <label className="block text-sm md:text-base font-bold text-gray-700">乱数シード</label>
+              <p className="text-xs text-gray-500">空欄なら毎回ランダム。同じ値にすると同じ問題列になります</p>
+              <input
+                type="text"
+                inputMode="numeric"
+                placeholder="ランダム"
+                value={settings.seed ?? ""}
+                onChange={(e) => {
+                  const digits = e.target.value.replace(/\D/g, "")
+                  setSettings({ ...settings, seed: digits === "" ? null : Math.min(MAX_SEED, Number(digits)) })
+                }}
+                className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm md:text-base font-mono focus:outline-none focus:border-blue-400"
+              />
+            </div>
+
+            {isSpanMode(settings) && (
               <div className="space-y-2">
-                <label className="block text-sm md:text-base font-bold text-gray-700">回答方式</label>
+                <label className="block text-sm md:text-base font-bold text-gray-700">適応モード (階段法)</label>
                 <div className="flex bg-gray-100 p-1 rounded-lg">
                   {[
-                    { id: "keypad", label: "入力" },
-                    { id: "none", label: "口頭" },
+                    { id: "off", label: "固定" },
+                    { id: "digits", label: "桁数" },
+                    { id: "display", label: "表示時間" },
+                    { id: "both", label: "両方" },
                   ].map((opt) => (
                     <button
                       key={opt.id}
-                      onClick={() => setSettings({ ...settings, answerMode: opt.id })}
-                      className={`flex-1 py-2 text-sm md:text-base rounded-md transition-all ${settings.answerMode === opt.id ? "bg-white shadow text-blue-700 font-bold" : "text-gray-500"}`}
+                      onClick={() => setSettings({ ...settings, adaptive: opt.id })}
+                      className={`flex-1 py-2 text-sm md:text-base rounded-md transition-all ${settings.adaptive === opt.id ? "bg-white shadow text-blue-700 font-bold" : "text-gray-500"}`}
                     >
                       {opt.label}
                     </button>
                   ))}
                 </div>
               </div>
+            )}
+
+            <div className="space-y-2">
+              <label className="block text-sm md:text-base font-bold text-gray-700">マスク (残像防止)</label>
+              <div className="flex bg-gray-100 p-1 rounded-lg">
+                {[
+                  { id: "off", label: "なし" },
+                  { id: "hash", label: "####" },
+                  { id: "noise", label: "ノイズ" },
+                ].map((opt) => (
+                  <button
+                    key={opt.id}
+                    onClick={() => setSettings({ ...settings, mask: opt.id })}
+                    className={`flex-1 py-2 text-sm md:text-base rounded-md transition-all ${settings.mask === opt.id ? "bg-white shadow text-blue-700 font-bold" : "text-gray-500"}`}
+                  >
+                    {opt.label}
+                  </button>
+                ))}
+              </div>
             </div>
 
+            {settings.mask !== "off" && (
+              <>
+                <NumberControl
+                  label="マスク表示時間"
+                  value={settings.maskSec}
+                  min={0.05}
+                  max={1.0}
+                  step={0.05}
+                  unit="s"
+                  onChange={(v) => setSettings({ ...settings, maskSec: v })}
+                />
+
+                <NumberControl
+                  label="刺激→マスク間隔"
+                  value={settings.maskDelaySec}
+                  min={0.0}
+                  max={0.5}
+                  step={0.05}
+                  unit="s"
+                  helpText="刺激が消えてからマスクを出すまでの空白時間"
+                  onChange={(v) => setSettings({ ...settings, maskDelaySec: v })}
+                />
+              </>
+            )}
+
+            {isSpanMode(settings) && (
+              <div className="space-y-2">
+                <label className="block text-sm md:text-base font-bold text-gray-700">再生順序</label>
+                <div className="flex bg-gray-100 p-1 rounded-lg">
+                  {Object.entries(RECALL_ORDER_LABELS).map(([id, label]) => (
+                    <button
+                      key={id}
+                      onClick={() => setSettings({ ...settings, recallOrder: id })}
+                      className={`flex-1 py-2 text-sm md:text-base rounded-md transition-all ${settings.recallOrder === id ? "bg-white shadow text-blue-700 font-bold" : "text-gray-500"}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {isAdaptiveRun(settings) && (
+              <NumberControl
+                label="難化までの連続正解数"
+                value={settings.adaptiveUp}
+                min={1}
+                max={4}
+                step={1}
+                helpText="連続正解で難しく、1回の誤答で易しくなります（桁数・表示時間は開始値から変化）"
+                onChange={(v) => setSettings({ ...settings, adaptiveUp: v })}
+              />
+            )}
+
             <div className="flex items-center justify-between py-2 border-b border-gray-100">
               <label className="text-gray-700 font-medium text-sm md:text-base">フィードバックを表示</label>
               <button
@@ -435,106 +1780,965 @@ export default function FlashNumberTrainer() {
         <div className="w-9 md:w-10"></div>
       </div>
 
+      {quarantinedCount > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 mb-3 text-xs md:text-sm text-amber-800">
+          <p className="mb-2">読み込めない記録が {quarantinedCount}件 あります（データは退避済みです）</p>
+          <div className="flex gap-2">
+            <Button onClick={exportQuarantined} variant="secondary" size="sm" className="flex-1">
+              <Download className="w-4 h-4 mr-1" /> 書き出す
+            </Button>
+            <Button onClick={discardQuarantined} variant="danger" size="sm" className="flex-1">
+              破棄
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex bg-gray-100 p-1 rounded-lg mb-3">
+        {[
+          { id: "LIST", label: "一覧" },
+          { id: "CHARTS", label: "グラフ" },
+        ].map((opt) => (
+          <button
+            key={opt.id}
+            onClick={() => setHistoryTab(opt.id)}
+            className={`flex-1 py-2 text-sm md:text-base rounded-md transition-all ${historyTab === opt.id ? "bg-white shadow text-blue-700 font-bold" : "text-gray-500"}`}
+          >
+            {opt.label}
+          </button>
+        ))}
+      </div>
+
       <div className="flex-1 overflow-auto space-y-2 md:space-y-3 mb-4">
-        {currentHistory.length === 0 ? (
+        {historyTab === "CHARTS" ? (
+          <HistoryDashboard history={currentHistory} />
+        ) : currentHistory.length === 0 ? (
           <div className="text-center text-gray-400 mt-20 text-sm md:text-base">履歴はありません</div>
         ) : (
           currentHistory
             .slice()
             .reverse()
             .map((h, i) => (
-              <div key={i} className="bg-white p-3 md:p-4 rounded-lg border border-gray-200 text-sm md:text-base">
+              <div key={h.id ?? i} className="bg-white p-3 md:p-4 rounded-lg border border-gray-200 text-sm md:text-base">
                 <div className="flex justify-between text-gray-500 text-xs md:text-sm mb-1 md:mb-2">
                   <span>{new Date(h.timestamp).toLocaleString()}</span>
-                  <span>{h.settings.mode === "sequence" ? "数字列" : "単発"}</span>
+                  <span>
+                    {MODE_LABELS[h.settings.mode] ?? MODE_LABELS.single}
+                    {h.settings.modality === "audio" && " / 聴覚"}
+                    {h.settings.modality === "both" && " / 視覚+聴覚"}
+                    {h.settings.alphabet && h.settings.alphabet !== "digits" && ` / ${ALPHABET_LABELS[h.settings.alphabet]}`}
+                  </span>
                 </div>
+                {h.program && (
+                  <div className="text-xs md:text-sm text-blue-700 font-bold mb-1">
+                    <Layers className="inline w-3.5 h-3.5 mr-1" />
+                    {h.program.name}（{h.program.blocks.length}ブロック{!h.program.completed && " / 未完了"}）
+                  </div>
+                )}
                 <div className="flex justify-between items-end">
                   <div>
-                    <span className="font-bold text-base md:text-xl text-blue-900">{h.settings.digits}桁</span>
-                    <span className="ml-2 text-gray-600 text-xs md:text-sm">
-                      {h.settings.displaySec}s / ITI {h.settings.itiSec}s
-                    </span>
+                    <span className="font-bold text-base md:text-xl text-blue-900">{describeSessionLevel(h)}</span>
+                    <span className="ml-2 text-gray-600 text-xs md:text-sm">{describeTiming(h.settings)}</span>
+                    {h.preset && <span className="ml-2 text-xs md:text-sm text-gray-500">[{h.preset.name}]</span>}
+                    {isSpanMode(h.settings) && h.settings.recallOrder && h.settings.recallOrder !== "forward" && (
+                      <span className="ml-2 text-xs md:text-sm text-purple-700">
+                        {RECALL_ORDER_LABELS[h.settings.recallOrder]}
+                      </span>
+                    )}
+                    {h.threshold && (
+                      <div className="text-xs md:text-sm text-blue-700 mt-1">
+                        閾値 {h.threshold.digits}桁 / {formatSec(h.threshold.displaySec)}
+                      </div>
+                    )}
                   </div>
                   <div className="text-right">
                     <div className="text-xl md:text-2xl font-bold text-gray-800">
                       {h.correct}
                       <span className="text-sm md:text-base text-gray-400">/{h.total}</span>
                     </div>
+                    {h.scores && (
+                      <div className="text-xs md:text-sm text-gray-500">位置正答 {h.scores.positionRate}%</div>
+                    )}
+                    {h.nback && (
+                      <div className="text-xs md:text-sm text-gray-500">d′ {h.nback.dPrime.toFixed(2)}</div>
+                    )}
+                    {h.distractor?.rate != null && (
+                      <div className="text-xs md:text-sm text-purple-700">妨害課題 {h.distractor.rate}%</div>
+                    )}
+                    {h.verbal?.partial > 0 && (
+                      <div className="text-xs md:text-sm text-amber-700">部分正答 {h.verbal.partial}</div>
+                    )}
                   </div>
                 </div>
+                {!h.program && (
+                  <div className="flex justify-between items-center mt-2 pt-2 border-t border-gray-100">
+                    <span className="text-xs text-gray-400 font-mono">
+                      {h.seed != null && `seed ${h.seed}`}
+                      {h.replayOf && " / 再実施"}
+                    </span>
+                    {h.results.length > 0 && (
+                      <button
+                        onClick={() => handleReplay(h)}
+                        className="flex items-center text-xs md:text-sm text-blue-600 font-bold px-2 py-1 rounded hover:bg-blue-50"
+                      >
+                        <RotateCw className="w-3.5 h-3.5 mr-1" /> 同じ問題で再実施
+                      </button>
+                    )}
+                  </div>
+                )}
               </div>
             ))
         )}
       </div>
 
-      <div className="grid grid-cols-2 gap-3">
-        <Button onClick={handleHistoryClear} variant="danger" size="sm">
-          <Delete className="w-4 h-4 md:w-5 h-5 mr-1 md:mr-2" /> 全消去
+      <div className="grid grid-cols-3 gap-3">
+        <Button onClick={handleHistoryClear} variant="danger" size="sm">
+          <Delete className="w-4 h-4 md:w-5 h-5 mr-1 md:mr-2" /> 全消去
+        </Button>
+        <Button onClick={exportCSV} variant="secondary" size="sm" disabled={currentHistory.length === 0}>
+          <Download className="w-4 h-4 md:w-5 h-5 mr-1 md:mr-2" /> CSV出力
+        </Button>
+        <Button onClick={exportTrialCSV} variant="secondary" size="sm" disabled={currentHistory.length === 0}>
+          <Download className="w-4 h-4 md:w-5 h-5 mr-1 md:mr-2" /> 試行CSV
+        </Button>
+      </div>
+    </div>
+  )
+
+  const renderImportPreview = () => (
+    <div className="fixed inset-0 z-50 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white p-5 md:p-6 rounded-xl shadow-2xl max-w-sm md:max-w-md w-full max-h-[90vh] flex flex-col">
+        <h3 className="text-lg md:text-xl font-bold mb-1">バックアップの復元</h3>
+        <p className="text-xs text-gray-500 mb-4">
+          {new Date(importPlan.backup.exportedAt).toLocaleString()} に作成されたバックアップ
+        </p>
+
+        <div className="flex bg-gray-100 p-1 rounded-lg mb-2">
+          {[
+            { id: "merge", label: "統合" },
+            { id: "replace", label: "置き換え" },
+          ].map((opt) => (
+            <button
+              key={opt.id}
+              onClick={() => handleImportModeChange(opt.id)}
+              className={`flex-1 py-2 text-sm md:text-base rounded-md transition-all ${importPlan.mode === opt.id ? "bg-white shadow text-blue-700 font-bold" : "text-gray-500"}`}
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mb-3">
+          {importPlan.mode === "merge"
+            ? "今の設定は残し、同じ日時の記録は重複として追加しません"
+            : "含まれるプロフィールの設定と履歴をバックアップの内容に置き換えます"}
+        </p>
+
+        <div className="flex-1 overflow-auto space-y-2 mb-4">
+          {importPlan.items.map((item) => (
+            <div key={item.id} className="border border-gray-200 rounded-lg p-3 text-sm">
+              <div className="font-bold text-gray-700">
+                {item.name}
+                {item.isNew && <span className="ml-2 text-xs text-blue-600">新規</span>}
+              </div>
+              <div className="text-xs text-gray-500 mt-1">
+                追加 {item.added}件 / 重複 {item.duplicates}件
+                {item.replaced > 0 && <span className="text-red-600"> / 既存 {item.replaced}件を削除</span>}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-3">
+          <Button onClick={() => setImportPlan(null)} variant="secondary" size="md" className="flex-1">
+            キャンセル
+          </Button>
+          <Button onClick={handleImportApply} variant="primary" size="md" className="flex-[2]">
+            適用する
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+
+  const renderPrograms = () => (
+    <div className="max-w-lg md:max-w-2xl mx-auto p-4 md:p-6 h-screen flex flex-col">
+      <div className="flex items-center justify-between mb-4 md:mb-5">
+        <button onClick={() => setView("HOME")} className="p-2 hover:bg-gray-100 rounded-full">
+          <ArrowLeft className="w-5 h-5 md:w-6 md:h-6 text-gray-600" />
+        </button>
+        <h2 className="text-lg md:text-xl lg:text-2xl font-bold">プログラム訓練</h2>
+        <div className="w-9 md:w-10"></div>
+      </div>
+
+      <div className="flex-1 overflow-auto space-y-2 md:space-y-3 mb-4">
+        {[...BUILT_IN_PROGRAMS, ...programs].map((program) => (
+          <div key={program.id} className="bg-white p-3 md:p-4 rounded-lg border border-gray-200 text-sm md:text-base">
+            <div className="flex justify-between items-start mb-2">
+              <div>
+                <div className="font-bold text-blue-900">{program.name}</div>
+                <div className="text-xs md:text-sm text-gray-500">
+                  {program.blocks.length}ブロック / 休憩 {program.restSec}s
+                  {program.builtIn && <span className="ml-2 text-gray-400">組み込み</span>}
+                </div>
+              </div>
+              <Button onClick={() => handleProgramStart(program)} variant="primary" size="sm">
+                <Play className="w-4 h-4 mr-1" /> 開始
+              </Button>
+            </div>
+            <ol className="text-xs md:text-sm text-gray-600 space-y-0.5 mb-2">
+              {program.blocks.map((block, i) => (
+                <li key={i} className="flex justify-between gap-2">
+                  <span>
+                    {i + 1}. {describeBlock(block.overrides, settings)}
+                  </span>
+                  <span className="text-gray-400 text-right">{describeCriteria(block)}</span>
+                </li>
+              ))}
+            </ol>
+            <div className="flex gap-2">
+              {program.builtIn ? (
+                <Button onClick={() => handleProgramDuplicate(program)} variant="ghost" size="sm" className="shadow-none">
+                  複製して編集
+                </Button>
+              ) : (
+                <>
+                  <Button onClick={() => setEditingProgram(program)} variant="ghost" size="sm" className="shadow-none">
+                    編集
+                  </Button>
+                  <Button onClick={() => handleProgramDelete(program)} variant="ghost" size="sm" className="shadow-none">
+                    削除
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-500 mb-3">
+        各ブロックは現在の訓練設定に桁数・表示時間・問題数を上書きして実施します
+      </p>
+      <Button onClick={() => setEditingProgram(createProgram("新しいプログラム"))} variant="secondary" size="md">
+        <Plus className="w-5 h-5 mr-2" /> 新規作成
+      </Button>
+    </div>
+  )
+
+  const renderProgramEditor = () => (
+    <div className="max-w-lg md:max-w-2xl mx-auto p-4 md:p-6 pb-28 md:pb-32 animate-slide-up">
+      <div className="flex items-center justify-center relative mb-6">
+        <h2 className="text-xl md:text-2xl lg:text-3xl font-bold text-gray-800">プログラム編集</h2>
+      </div>
+
+      <div className="space-y-4 md:space-y-5">
+        <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-100">
+          <label className="font-bold text-gray-700 text-sm md:text-base block mb-2">プログラム名</label>
+          <input
+            type="text"
+            value={editingProgram.name}
+            onChange={(e) => setEditingProgram((prev) => ({ ...prev, name: e.target.value }))}
+            maxLength={30}
+            className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm md:text-base focus:outline-none focus:border-blue-400"
+          />
+        </div>
+
+        <NumberControl
+          label="ブロック間の休憩"
+          value={editingProgram.restSec}
+          min={0}
+          max={300}
+          step={5}
+          onChange={(v) => setEditingProgram((prev) => ({ ...prev, restSec: v }))}
+          unit="s"
+          helpText="0 の場合は休憩画面を挟まずに次のブロックへ進みます"
+        />
+
+        {editingProgram.blocks.map((block, i) => (
+          <div key={i} className="border border-gray-200 rounded-xl p-3 md:p-4 space-y-3 bg-gray-50">
+            <div className="flex items-center justify-between">
+              <h3 className="font-bold text-gray-700">ブロック {i + 1}</h3>
+              <div className="flex gap-1">
+                <button
+                  onClick={() => moveEditingBlock(i, -1)}
+                  disabled={i === 0}
+                  className="p-1.5 hover:bg-gray-200 rounded-full disabled:opacity-30"
+                  title="上へ"
+                >
+                  <ChevronUp className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => moveEditingBlock(i, 1)}
+                  disabled={i === editingProgram.blocks.length - 1}
+                  className="p-1.5 hover:bg-gray-200 rounded-full disabled:opacity-30"
+                  title="下へ"
+                >
+                  <ChevronDown className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() =>
+                    setEditingProgram((prev) => ({ ...prev, blocks: prev.blocks.filter((_, j) => j !== i) }))
+                  }
+                  disabled={editingProgram.blocks.length <= 1}
+                  className="p-1.5 hover:bg-red-100 rounded-full disabled:opacity-30"
+                  title="削除"
+                >
+                  <Delete className="w-4 h-4 text-red-600" />
+                </button>
+              </div>
+            </div>
+
+            <NumberControl
+              label="桁数"
+              value={block.overrides.digits ?? settings.digits}
+              min={MIN_DIGITS}
+              max={MAX_DIGITS}
+              step={1}
+              onChange={(v) => updateEditingBlock(i, { overrides: { ...block.overrides, digits: v } })}
+              unit="桁"
+            />
+            <NumberControl
+              label="表示時間"
+              value={block.overrides.displaySec ?? settings.displaySec}
+              min={0.05}
+              max={10.0}
+              step={0.05}
+              onChange={(v) => updateEditingBlock(i, { overrides: { ...block.overrides, displaySec: v } })}
+              unit="s"
+              helpText="数字列モードで使用します"
+              normalizeValue={normalizeDisplaySec}
+              formatValue={formatDisplaySec}
+              stepStrategy={(currentValue, direction) => resolveDisplayStep(currentValue, direction)}
+            />
+            <NumberControl
+              label="問題数"
+              value={block.overrides.trialsPerSet ?? settings.trialsPerSet}
+              min={1}
+              max={20}
+              step={1}
+              onChange={(v) => updateEditingBlock(i, { overrides: { ...block.overrides, trialsPerSet: v } })}
+              unit="問"
+            />
+            <NumberControl
+              label="合格基準（正答率）"
+              value={block.minAccuracy}
+              min={0}
+              max={100}
+              step={10}
+              onChange={(v) => updateEditingBlock(i, { minAccuracy: v })}
+              unit="%"
+              helpText="0% の場合は結果にかかわらず次のブロックへ進みます"
+            />
+
+            {block.minAccuracy > 0 && (
+              <div className="space-y-2">
+                <label className="font-bold text-gray-700 text-sm md:text-base">基準に届かなかった場合</label>
+                <div className="flex bg-gray-100 p-1 rounded-lg">
+                  {Object.entries(FAIL_ACTION_LABELS).map(([id, label]) => (
+                    <button
+                      key={id}
+                      onClick={() => updateEditingBlock(i, { onFail: id })}
+                      className={`flex-1 py-2 text-sm md:text-base rounded-md transition-all ${block.onFail === id ? "bg-white shadow text-blue-700 font-bold" : "text-gray-500"}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                {block.onFail === "repeat" && (
+                  <NumberControl
+                    label="最大実施回数"
+                    value={block.maxAttempts}
+                    min={1}
+                    max={5}
+                    step={1}
+                    onChange={(v) => updateEditingBlock(i, { maxAttempts: v })}
+                    unit="回"
+                    helpText="この回数で届かなければ次のブロックへ進みます"
+                  />
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+
+        <Button
+          onClick={() =>
+            setEditingProgram((prev) => ({
+              ...prev,
+              blocks: [...prev.blocks, { ...prev.blocks[prev.blocks.length - 1] }],
+            }))
+          }
+          variant="ghost"
+          size="md"
+          className="w-full"
+        >
+          <Plus className="w-5 h-5 mr-2" /> ブロックを追加
+        </Button>
+      </div>
+
+      <div className="fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200 p-4 md:p-5 pb-safe z-10 flex gap-3 md:gap-4 max-w-lg md:max-w-2xl mx-auto">
+        <Button onClick={() => setEditingProgram(null)} variant="secondary" size="md" className="flex-1">
+          キャンセル
+        </Button>
+        <Button onClick={handleProgramSave} variant="primary" size="md" className="flex-[2]">
+          保存する
+        </Button>
+      </div>
+    </div>
+  )
+
+  // --- Sub-renderers logic switch ---
+
+  return (
+    <div className="min-h-screen bg-gray-50 font-sans text-gray-900 select-none">
+      <div className="mx-auto max-w-lg md:max-w-3xl lg:max-w-5xl min-h-screen bg-white sm:shadow-xl sm:my-0 sm:min-h-screen relative overflow-hidden">
+        {view === "HOME" && renderHome()}
+        {view === "SETTINGS" && renderSettings()}
+        {view === "RUN" && (
+          <RunSession
+            settings={currentRun.settings}
+            seed={currentRun.seed}
+            stimuli={currentRun.stimuli}
+            pairing={pairing}
+            onFinish={handleRunFinish}
+            onAbort={() => setView("HOME")}
+          />
+        )}
+        {view === "RESULT" && (
+          <ResultScreen
+            results={sessionResults}
+            settings={currentRun?.settings ?? settings}
+            program={programRun}
+            seed={currentRun?.seed}
+            onNextSet={() => setView(programRun ? "PROGRAMS" : "SETTINGS")}
+            onHome={() => setView("HOME")}
+          />
+        )}
+        {view === "HISTORY" && renderHistory()}
+        {view === "PROGRAMS" && (editingProgram ? renderProgramEditor() : renderPrograms())}
+        {view === "PROGRAM_RUN" && (
+          <ProgramSession
+            program={activeProgram}
+            settings={currentRun.settings}
+            seed={currentRun.seed}
+            pairing={pairing}
+            onFinish={handleProgramFinish}
+            onAbort={() => setView("PROGRAMS")}
+          />
+        )}
+        {importPlan && renderImportPreview()}
+      </div>
+    </div>
+  )
+}
+
+// --- Program Session Component ---
+// ブロックごとに RunSession を実施し、進行条件に従って次のブロック・やり直し・終了を決める
+
+function ProgramSession({ program, settings, seed, pairing = null, onFinish, onAbort }) {
+  const [blockIndex, setBlockIndex] = useState(0)
+  const [attempt, setAttempt] = useState(1)
+  const [blocks, setBlocks] = useState([]) // 実施済みブロック（やり直しを含む）
+  const [rest, setRest] = useState(null) // { evaluation, next: { blockIndex, attempt } } | null
+  const [restLeft, setRestLeft] = useState(0)
+
+  const block = program.blocks[blockIndex]
+  const blockSettings = useMemo(() => ({ ...settings, ...block.overrides }), [settings, block])
+
+  const startBlock = (next) => {
+    setBlockIndex(next.blockIndex)
+    setAttempt(next.attempt)
+    setRest(null)
+  }
+
+  const handleBlockFinish = (results) => {
+    const evaluation = evaluateBlock(block, results, attempt)
+    const nextBlocks = [
+      ...blocks,
+      {
+        block: blockIndex + 1,
+        attempt,
+        overrides: block.overrides,
+        total: results.length,
+        correct: results.filter((r) => r.isCorrect).length,
+        accuracy: evaluation.accuracy,
+        passed: evaluation.passed,
+        nback: blockSettings.mode === "nback" ? summarizeNback(results, blockSettings.nbackLevel) : null,
+        results: results.map((r) => ({ ...r, block: blockIndex + 1, attempt })),
+      },
+    ]
+
+    const next =
+      evaluation.next === "repeat"
+        ? { blockIndex, attempt: attempt + 1 }
+        : evaluation.next === "advance" && blockIndex + 1 < program.blocks.length
+          ? { blockIndex: blockIndex + 1, attempt: 1 }
+          : null
+
+    if (!next) {
+      onFinish(nextBlocks, evaluation.next === "advance")
+      return
+    }
+
+    setBlocks(nextBlocks)
+    if (program.restSec > 0) {
+      setRest({ evaluation, next })
+      setRestLeft(program.restSec)
+    } else {
+      startBlock(next)
+    }
+  }
+
+  // 中断時は実施済みのブロックだけを未完了として記録する
+  const handleAbort = () => {
+    if (blocks.length > 0) onFinish(blocks, false)
+    else onAbort()
+  }
+
+  // 休憩のカウントダウン（0 で自動的に次のブロックへ）
+  useEffect(() => {
+    if (!rest) return
+    if (restLeft <= 0) {
+      startBlock(rest.next)
+      return
+    }
+    const timer = setTimeout(() => setRestLeft((prev) => prev - 1), 1000)
+    return () => clearTimeout(timer)
+  }, [rest, restLeft])
+
+  const restKeyRef = useRef(null)
+  restKeyRef.current = (e) => {
+    if (!rest || !isShortcutTarget(e)) return
+    if (e.key === "Enter") {
+      e.preventDefault()
+      startBlock(rest.next)
+    } else if (e.key === "Escape") {
+      e.preventDefault()
+      handleAbort()
+    }
+  }
+
+  useEffect(() => {
+    const onKeyDown = (e) => restKeyRef.current(e)
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [])
+
+  if (!rest) {
+    return (
+      <RunSession
+        key={`${blockIndex}-${attempt}`}
+        settings={blockSettings}
+        seed={deriveSeed(seed, blocks.length)}
+        pairing={pairing}
+        onFinish={handleBlockFinish}
+        onAbort={handleAbort}
+      />
+    )
+  }
+
+  const last = blocks[blocks.length - 1]
+  const nextBlock = program.blocks[rest.next.blockIndex]
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center p-6 md:p-8 bg-gradient-to-br from-blue-50 to-white animate-fade-in">
+      <p className="text-gray-500 text-sm md:text-base mb-1">{program.name}</p>
+      <h2 className="text-2xl md:text-3xl font-black text-gray-800 mb-6">休憩</h2>
+
+      <div className="bg-white rounded-3xl shadow-2xl p-6 md:p-8 mb-6 w-full max-w-md text-center space-y-4">
+        <div>
+          <p className="text-gray-500 text-xs md:text-sm">
+            ブロック {last.block}/{program.blocks.length}
+            {last.attempt > 1 && `（${last.attempt}回目）`}
+          </p>
+          <div className="text-4xl md:text-5xl font-black text-blue-900 tabular-nums">{rest.evaluation.accuracy}%</div>
+          <p className="text-gray-500 text-xs md:text-sm">
+            {last.correct}/{last.total} 正解
+            {block.minAccuracy > 0 && (rest.evaluation.passed ? " / 基準達成" : " / 基準未達")}
+          </p>
+        </div>
+
+        <div className="text-6xl md:text-7xl font-mono font-bold text-gray-700 tabular-nums">{restLeft}</div>
+
+        <div className="bg-gray-50 rounded-xl p-3 text-sm md:text-base">
+          <p className="text-gray-500 text-xs md:text-sm mb-1">
+            次: ブロック {rest.next.blockIndex + 1}/{program.blocks.length}
+            {rest.next.attempt > 1 && `（やり直し ${rest.next.attempt}回目）`}
+          </p>
+          <p className="font-bold text-gray-700">{describeBlock(nextBlock.overrides, settings)}</p>
+        </div>
+      </div>
+
+      <div className="flex gap-3 md:gap-4 w-full max-w-md">
+        <Button onClick={handleAbort} variant="secondary" size="md" className="flex-1">
+          終了
         </Button>
-        <Button onClick={exportCSV} variant="secondary" size="sm" disabled={currentHistory.length === 0}>
-          <Download className="w-4 h-4 md:w-5 h-5 mr-1 md:mr-2" /> CSV出力
+        <Button onClick={() => startBlock(rest.next)} variant="primary" size="md" className="flex-[2]">
+          すぐに始める
         </Button>
       </div>
     </div>
   )
+}
 
-  // --- Sub-renderers logic switch ---
+// --- Distractor Task Component ---
+
+// 保持期間の妨害課題。回答（標的の見逃しを含む）ごとに onResponse(正誤) を呼び、集計は RunSession が行う
+function DistractorTask({ type, seed, paused, onResponse }) {
+  const randomRef = useRef(null)
+  if (randomRef.current === null) randomRef.current = createRandom(seed)
+  const random = randomRef.current
+  const onResponseRef = useRef(onResponse)
+  onResponseRef.current = onResponse
+
+  const [problem, setProblem] = useState(() => (type === "arithmetic" ? createArithmeticProblem(random) : null))
+  const [target, setTarget] = useState(() => (type === "target" ? createTargetPosition(random) : null))
+  const [start] = useState(() => (type === "countback" ? createCountbackStart(random) : null))
+  const baseRef = useRef(start) // 逆算: 直前に入力した数（次はここから引く）
+  const [input, setInput] = useState("")
+  const [entries, setEntries] = useState(0)
+
+  const judge = (isTrue) => {
+    if (paused) return
+    onResponseRef.current(isTrue === problem.isTrue)
+    setProblem(createArithmeticProblem(random))
+  }
 
-  return (
-    <div className="min-h-screen bg-gray-50 font-sans text-gray-900 select-none">
-      <div className="mx-auto max-w-lg md:max-w-3xl lg:max-w-5xl min-h-screen bg-white sm:shadow-xl sm:my-0 sm:min-h-screen relative overflow-hidden">
-        {view === "HOME" && renderHome()}
-        {view === "SETTINGS" && renderSettings()}
-        {view === "RUN" && (
-          <RunSession
-            settings={settings}
-            onFinish={(results) => {
-              setSessionResults(results)
-
-              // 履歴保存ロジック
-              if (settings.recording) {
-                const correctCount = results.filter((r) => r.isCorrect).length
-                const newRecord = {
-                  timestamp: Date.now(),
-                  settings: settings,
-                  results: results, // 詳細も保存（必要であれば）
-                  total: results.length,
-                  correct: correctCount,
-                }
-                const newHistory = [...currentHistory, newRecord]
-                setCurrentHistory(newHistory)
-              }
-              setView("RESULT")
-            }}
-            onAbort={() => setView("HOME")}
+  // 標的: 時間内にタップされなければ見逃しとして記録し、次の位置へ移す
+  useEffect(() => {
+    if (type !== "target" || paused) return
+    const id = window.setTimeout(() => {
+      onResponseRef.current(false)
+      setTarget(createTargetPosition(random))
+    }, TARGET_MOVE_MS)
+    return () => window.clearTimeout(id)
+  }, [target, paused])
+
+  const tapTarget = (e) => {
+    e.stopPropagation()
+    if (paused) return
+    onResponseRef.current(true)
+    setTarget(createTargetPosition(random))
+  }
+
+  const tapBackground = () => {
+    if (!paused) onResponseRef.current(false)
+  }
+
+  const submitCount = () => {
+    if (paused || input === "") return
+    const value = Number(input)
+    onResponseRef.current(value === baseRef.current - COUNTBACK_STEP)
+    baseRef.current = value
+    setInput("")
+    setEntries((n) => n + 1)
+  }
+
+  // 計算: ← 正しい / → 誤り, 逆算: 数字で入力 / Enter 確定 / Backspace 削除
+  const keyHandlerRef = useRef(null)
+  keyHandlerRef.current = (e) => {
+    if (!isShortcutTarget(e) || e.repeat || paused) return
+    if (type === "arithmetic") {
+      if (e.key === "ArrowLeft") judge(true)
+      else if (e.key === "ArrowRight") judge(false)
+    } else if (type === "countback") {
+      const key = readAnswerKey(e, "0123456789".split(""))
+      if (key !== null) setInput((prev) => (prev.length < 3 ? prev + key : prev))
+      else if (e.key === "Backspace") setInput((prev) => prev.slice(0, -1))
+      else if (e.key === "Enter") submitCount()
+    }
+  }
+
+  useEffect(() => {
+    const onKeyDown = (e) => keyHandlerRef.current(e)
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [])
+
+  const header = <p className="text-center text-xs md:text-sm text-gray-400 pt-3">{DISTRACTOR_LABELS[type]}</p>
+
+  if (type === "target") {
+    return (
+      <div className="flex-1 flex flex-col">
+        {header}
+        <div className="flex-1 relative m-3 md:m-4 rounded-xl bg-gray-50" onClick={tapBackground}>
+          <button
+            onClick={tapTarget}
+            className="absolute w-14 h-14 md:w-16 md:h-16 -ml-7 -mt-7 md:-ml-8 md:-mt-8 rounded-full bg-red-500 border-4 border-red-200 shadow-lg active:scale-95"
+            style={{ left: `${target.x}%`, top: `${target.y}%` }}
           />
-        )}
-        {view === "RESULT" && (
-          <ResultScreen results={sessionResults} onNextSet={() => setView("SETTINGS")} onHome={() => setView("HOME")} />
-        )}
-        {view === "HISTORY" && renderHistory()}
+        </div>
+      </div>
+    )
+  }
+
+  if (type === "countback") {
+    return (
+      <div className="flex-1 overflow-y-auto flex flex-col items-center px-4 md:px-6 py-4">
+        {header}
+        <div className="w-full max-w-xs md:max-w-sm">
+          <p className="text-center text-gray-700 text-sm md:text-base my-3">
+            <span className="text-2xl md:text-3xl font-black text-blue-900 tabular-nums">{start}</span> から
+            {COUNTBACK_STEP}ずつ引いて入力（{entries}回）
+          </p>
+          <div className="bg-gray-100 rounded-xl p-3 mb-3 text-center text-3xl md:text-4xl font-black text-gray-700 tabular-nums">
+            {input || "?"}
+          </div>
+          <div className="grid grid-cols-3 gap-2 mb-2">
+            {["1", "2", "3", "4", "5", "6", "7", "8", "9", "DELETE", "0", "ENTER"].map((key) => (
+              <button
+                key={key}
+                onClick={() =>
+                  key === "DELETE"
+                    ? setInput((prev) => prev.slice(0, -1))
+                    : key === "ENTER"
+                      ? submitCount()
+                      : setInput((prev) => (prev.length < 3 ? prev + key : prev))
+                }
+                className="py-3 rounded-lg bg-white border-2 border-gray-200 hover:border-blue-500 hover:bg-blue-50 text-xl font-bold text-gray-700 flex items-center justify-center active:scale-95 transition-all shadow-sm"
+              >
+                {key === "DELETE" ? (
+                  <Delete className="w-5 h-5 text-red-700" />
+                ) : key === "ENTER" ? (
+                  <Check className="w-5 h-5 text-green-700" />
+                ) : (
+                  key
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex-1 flex flex-col items-center justify-center px-4 md:px-6">
+      {header}
+      <div className="text-4xl md:text-6xl landscape:text-4xl font-black text-gray-800 tabular-nums my-6 md:my-10">
+        {problem.text}
+      </div>
+      <div className="grid grid-cols-2 gap-3 w-full max-w-sm">
+        <Button onClick={() => judge(true)} variant="success" size="lg">
+          正しい
+        </Button>
+        <Button onClick={() => judge(false)} variant="danger" size="lg">
+          誤り
+        </Button>
       </div>
+      <p className="hidden md:block text-center text-xs text-gray-400 mt-3">キーボード: ← 正しい / → 誤り</p>
     </div>
   )
 }
 
 // --- Run Session Component (Complex Logic) ---
 
-function RunSession({ settings, onFinish, onAbort }) {
+function RunSession({ settings, seed, stimuli = null, pairing = null, onFinish, onAbort }) {
   // Phases: PREP -> SHOW -> HIDE -> ANSWER -> FEEDBACK -> PREP (Loop)
-  const [phase, setPhase] = useState("PREP")
-  const [trialIndex, setTrialIndex] = useState(0)
-  const [currentStimulus, setCurrentStimulus] = useState("")
+  // 段階の進行・結果の蓄積は lib/session のエンジンが行い、ここでは提示と入力だけを扱う
+  const [session, setSession] = useState(null) // エンジンの状態（開始前は null）
   const [userInput, setUserInput] = useState("")
-  const [results, setResults] = useState([])
-  const [isPaused, setIsPaused] = useState(false)
-  const [feedbackState, setFeedbackState] = useState(null) // 'correct' | 'incorrect' | 'verbal'
+  const [transcript, setTranscript] = useState("") // 口頭回答: 検査者が入力する発話内容（任意）
+
+  const isAnzan = settings.mode === "anzan"
+  const isNback = settings.mode === "nback"
+  // 刺激・キーパッドの文字セット（フラッシュ暗算は数字で答える）
+  const chars = useMemo(
+    () => alphabetChars(isAnzan ? { ...settings, alphabet: "digits", numberRange: "0-9" } : settings),
+    [settings],
+  )
+  // N-back の項目列はセット全体で先に作る（一致は N 個前との比較で決まるため）
+  const nbackItems = useMemo(() => {
+    if (!isNback) return null
+    if (stimuli) return stimuli
+    return generateNbackSequence(
+      { length: settings.nbackTrials, level: settings.nbackLevel, digits: settings.nbackDigits },
+      createRandom(seed),
+    )
+  }, [])
+  const engineRef = useRef(null)
+  const onFinishRef = useRef(onFinish)
+  onFinishRef.current = onFinish
+  const timingRef = useRef(createTrialTiming()) // 試行内の高分解能タイムスタンプ
+  const feedbackKeysRef = useRef([]) // FEEDBACK 中の先行反応（次の試行の anticipations に入れる）
+  const [responded, setResponded] = useState(false) // N-back: この項目で「一致」を押したか
+  const respondedRef = useRef(false)
+  const distractorRef = useRef(null) // 妨害課題の成績（試行ごと）
+  const presentationRef = useRef(null) // 実測の表示時間・フレーム数
+  const maskTimingRef = useRef(null)
+  const speechTimingRef = useRef(null)
+
+  // --- Adaptive staircase ---
+  // 次の試行のレベルは回答時に更新し、試行の生成時に反映する
+  // 単発モードでは1桁あたりの表示時間を表示時間レベルとして扱う
+  // フラッシュ暗算・N-back は1口（1項目）の桁数・表示時間を固定レベルとして記録する
+  const staircaseRef = useRef(
+    createStaircase(
+      isAnzan
+        ? { digits: settings.anzanDigits, displaySec: settings.anzanOnSec }
+        : isNback
+          ? { digits: settings.nbackDigits, displaySec: settings.nbackOnSec }
+          : {
+              digits: settings.digits,
+              displaySec: settings.mode === "single" ? settings.digitOnSec : settings.displaySec,
+            },
+    ),
+  )
+
+  const advanceStaircase = (isCorrect) => {
+    staircaseRef.current = updateStaircase(staircaseRef.current, isCorrect, {
+      mode: isAdaptiveRun(settings) ? settings.adaptive : "off",
+      up: settings.adaptiveUp,
+      minDigits: MIN_DIGITS,
+      maxDigits: MAX_DIGITS,
+    })
+  }
+
+  const trialCount = isNback ? nbackItems.length : settings.trialsPerSet
+  const hasDistractor = settings.distractor !== "off" && !isNback // N-back は保持期間がないため行わない
+  const phase = session?.phase ?? "PREP"
+  const trialIndex = session?.trialIndex ?? 0
+  const isPaused = session?.paused ?? false
+  const trialLevel = session?.trial.level ?? staircaseRef.current.level
+  const currentStimulus = session?.trial.stimulus ?? ""
+  const expected = session?.trial.expected ?? "" // 再生順序に応じた正答
+  const maskText = session?.trial.mask ?? ""
+  const operands = session?.trial.operands ?? null // フラッシュ暗算の数の列
+  // 1つずつ表示する刺激（単発は1文字ずつ、フラッシュ暗算は1口ずつ）
+  const isSequential = settings.mode === "single" || isAnzan
+  const sequenceItems = operands ? operands.map(formatOperand) : currentStimulus.split("")
+  const lastResult = session?.results[session.results.length - 1]
+  const feedbackState = lastResult
+    ? lastResult.verbalScore === "partial"
+      ? "partial"
+      : lastResult.isCorrect
+        ? "correct"
+        : "incorrect"
+    : null
+
+  const buildResult = (trial, answer) => ({
+    trial: trial.index + 1,
+    stimulus: trial.stimulus,
+    expected: trial.expected,
+    ...(trial.operands && { operands: trial.operands }),
+    ...answer,
+    digits: trial.level.digits,
+    displaySec: trial.level.displaySec,
+    timing: snapshotTiming(timingRef.current),
+    presentation: presentationRef.current,
+    mask: maskTimingRef.current,
+    speech: speechTimingRef.current,
+    constraintFallback: !trial.satisfied, // 制約を満たせず制約なしで生成した試行
+    distractor: distractorRef.current,
+    timestamp: Date.now(),
+  })
+
+  // フラッシュ暗算の試行（stimulus は "12 -5 34" の形で保存し、再実施時はそこから戻す）
+  const createAnzanTrial = (index) => {
+    const problem = stimuli
+      ? { operands: parseOperands(stimuli[index]), answer: sumOperands(parseOperands(stimuli[index])) }
+      : generateAnzan(
+          { count: settings.anzanCount, digits: settings.anzanDigits, subtract: settings.anzanSubtract },
+          createRandom(deriveSeed(seed, index)),
+        )
+    const maskLength = Math.max(...problem.operands.map((value) => formatOperand(value).length))
+    return {
+      index,
+      level: staircaseRef.current.level,
+      stimulus: serializeOperands(problem.operands),
+      operands: problem.operands,
+      expected: String(problem.answer),
+      satisfied: true,
+      mask: settings.mask === "off" ? "" : generateMask(settings.mask, maskLength),
+    }
+  }
+
+  const createNbackTrial = (index) => {
+    const stimulus = nbackItems[index]
+    const isTarget = isNbackTarget(nbackItems, index, settings.nbackLevel)
+    return {
+      index,
+      level: staircaseRef.current.level,
+      stimulus,
+      expected: isTarget ? "MATCH" : "",
+      isTarget,
+      satisfied: true,
+      mask: settings.mask === "off" ? "" : generateMask(settings.mask, stimulus.length),
+    }
+  }
+
+  // N-back は回答段階を設けず、項目間の時間が終わった時点の反応で記録する
+  const submitNback = (trial) => {
+    const timing = timingRef.current
+    const didRespond = respondedRef.current
+    return buildResult(trial, {
+      input: didRespond ? "MATCH" : "",
+      isCorrect: didRespond === trial.isTarget,
+      score: null,
+      isVerbal: false,
+      nback: classifyNback(trial.isTarget, didRespond),
+      nbackRtMs:
+        didRespond && timing.stimulusOnset != null ? Math.round(timing.firstKey - timing.stimulusOnset) : null,
+    })
+  }
 
-  const timerRef = useRef(null)
+  // --- Session Engine ---
+  useEffect(() => {
+    const generateStimulus = createStimulusGenerator(chars, settings)
+    const engine = createSession({
+      trials: trialCount,
+      prepMs: isNback ? 0 : 500,
+      itiMs: (isNback ? settings.nbackIntervalSec : settings.itiSec) * 1000,
+      feedbackMs: settings.feedback ? settings.feedbackSec * 1000 : null,
+      distractorMs: hasDistractor ? settings.distractorSec * 1000 : null,
+      // 試行ごとに派生シードで生成する。stimuli 指定時（再実施）はその問題列を使う
+      createTrial: (index) => {
+        if (isAnzan) return createAnzanTrial(index)
+        if (isNback) return createNbackTrial(index)
+        const generated = stimuli
+          ? { stimulus: stimuli[index], satisfied: true }
+          : generateStimulus(staircaseRef.current.level.digits, createRandom(deriveSeed(seed, index)))
+        const stimulus = generated.stimulus
+        const level = { ...staircaseRef.current.level, digits: stimulus.length }
+        return {
+          index,
+          level,
+          stimulus,
+          expected: expectedAnswer(stimulus, settings.recallOrder, chars),
+          satisfied: generated.satisfied,
+          mask: settings.mask === "off" ? "" : generateMask(settings.mask, settings.mode === "single" ? 1 : stimulus.length),
+        }
+      },
+      autoSubmit: isNback ? submitNback : undefined,
+      onEvent: (event, state) => {
+        if (event.type === "trial") {
+          timingRef.current = { ...createTrialTiming(), anticipations: feedbackKeysRef.current }
+          feedbackKeysRef.current = []
+          presentationRef.current = null
+          maskTimingRef.current = null
+          speechTimingRef.current = null
+          respondedRef.current = false
+          distractorRef.current = null
+          setResponded(false)
+          setUserInput("")
+          setTranscript("")
+        } else if (event.type === "phase" && event.phase === "ANSWER") {
+          if (timingRef.current.answerStart == null) timingRef.current.answerStart = now()
+        } else if (event.type === "finish") {
+          onFinishRef.current(event.results)
+          return
+        }
+        setSession(state)
+      },
+    })
+    engineRef.current = engine
+    engine.start()
+    return () => engine.dispose()
+  }, [])
 
   // --- Stimulus font auto-fit (measured, never clip) ---
   const showBoxRef = useRef(null)
   const stimulusRef = useRef(null)
+  const maskNodeRef = useRef(null)
   const [stimulusStyle, setStimulusStyle] = useState({ fontSizePx: 120, letterSpacingEm: 0.1 })
 
   const fitStimulus = useCallback(() => {
@@ -543,7 +2747,7 @@ function RunSession({ settings, onFinish, onAbort }) {
     const text = stimulusRef.current
     if (!box || !text) return
 
-    const digits = settings.digits
+    const digits = isAnzan ? settings.anzanDigits + 1 : settings.mode === "single" ? 1 : trialLevel.digits
 
     // 桁数が多いほど詰める（切れ防止）
     const letterSpacingEm = Math.min(0.12, Math.max(0.02, 0.12 - digits * 0.012))
@@ -578,7 +2782,7 @@ function RunSession({ settings, onFinish, onAbort }) {
     }
 
     setStimulusStyle({ fontSizePx: nextSize, letterSpacingEm })
-  }, [settings.digits])
+  }, [trialLevel.digits, settings.mode])
 
   // SHOWに入った直後＆刺激が変わった直後にフィット（レイアウト確定後）
   useEffect(() => {
@@ -610,137 +2814,282 @@ function RunSession({ settings, onFinish, onAbort }) {
     }
   }, [fitStimulus])
 
-  // --- Timer & Phase Management ---
-
-  const clearTimer = () => {
-    if (timerRef.current) clearTimeout(timerRef.current)
-  }
-
-  const nextTrial = useCallback(() => {
-    if (trialIndex + 1 >= settings.trialsPerSet) {
-      onFinish(results)
-    } else {
-      setTrialIndex((prev) => prev + 1)
-      setPhase("PREP")
-    }
-  }, [trialIndex, settings.trialsPerSet, results, onFinish])
-
-  // --- Data Setup Effect ---
-  useEffect(() => {
-    const num = generateStimulus(settings.digits, settings.numberRange)
-    setCurrentStimulus(num)
-    setUserInput("")
-    setFeedbackState(null)
-    setPhase("PREP")
-  }, [trialIndex, settings.digits, settings.numberRange])
-
-  // --- Phase Timer Effect ---
+  // --- Presentation (SHOW) ---
+  // 視覚提示と音声提示の両方が終わったらエンジンへ知らせる。一時停止・段階の切り替えで中止する
   useEffect(() => {
-    if (isPaused) return
-
-    clearTimer()
-
-    switch (phase) {
-      case "PREP":
-        timerRef.current = setTimeout(() => setPhase("SHOW"), 500)
-        break
+    if (phase !== "SHOW" || isPaused) return
+
+    const useVisual = settings.modality !== "audio"
+    const useAudio = settings.modality !== "visual"
+    let pending = (useVisual ? 1 : 0) + (useAudio ? 1 : 0)
+    const finishPresentation = () => {
+      pending -= 1
+      if (pending === 0) engineRef.current.presentationDone()
+    }
+    let cancelPresentation = null
+    let cancelSpeech = null
+
+    // 表示/非表示はrAF内でDOMを直接切り替え、描画フレームに揃える
+    // 単発モード・フラッシュ暗算では各桁（各数）を同じ位置に重ねて配置し、1つずつ可視にする
+    const stimulusCount = isSequential ? sequenceItems.length : 1
+    const gapMs = isAnzan ? settings.anzanGapSec * 1000 : isSequential ? settings.digitGapSec * 1000 : 0
+    const nodeAt = (i) => {
+      if (i >= stimulusCount) return maskNodeRef.current
+      return isSequential ? stimulusRef.current?.children[i] : stimulusRef.current
+    }
 
-      case "SHOW":
-        timerRef.current = setTimeout(() => {
-          setPhase("HIDE")
-        }, settings.displaySec * 1000)
-        break
+    const items = Array.from({ length: stimulusCount }, () => ({ onMs: trialLevel.displaySec * 1000, gapMs }))
+    if (settings.mask !== "off") {
+      // マスクは最後の刺激から maskDelaySec 空けて、同じ枠に重ねて表示する
+      items[items.length - 1] = { ...items[items.length - 1], gapMs: settings.maskDelaySec * 1000 }
+      items.push({ onMs: settings.maskSec * 1000, gapMs: 0 })
+    }
 
-      case "HIDE":
-        timerRef.current = setTimeout(() => {
-          if (settings.answerMode === "none") {
-            setResults((prev) => [
-              ...prev,
-              {
-                trial: trialIndex + 1,
-                stimulus: currentStimulus,
-                input: "(None)",
-                isCorrect: true,
-                isVerbal: true,
-                timestamp: Date.now(),
-              },
-            ])
-            nextTrial()
-          } else {
-            setPhase("ANSWER")
+    if (useAudio) {
+      // 視覚+聴覚の単発モード・フラッシュ暗算では、各桁（各数）の表示開始に読み上げを揃える
+      const intervalMs =
+        useVisual && isSequential ? trialLevel.displaySec * 1000 + gapMs : settings.speechIntervalSec * 1000
+      cancelSpeech = runSpokenSequence({
+        text: operands ? operands.map(String) : isNback ? [currentStimulus] : currentStimulus,
+        intervalMs,
+        lang: settings.voiceLang,
+        onComplete: (timing) => {
+          cancelSpeech = null
+          speechTimingRef.current = timing
+          if (!useVisual) {
+            timingRef.current.stimulusOnset = timing.scheduled[0] ?? null
+            timingRef.current.stimulusOffset = timing.end
           }
-        }, settings.itiSec * 1000)
-        break
-
-      case "ANSWER":
-        // Waiting for user input.
-        break
-
-      case "FEEDBACK":
-        if (settings.feedback) {
-          timerRef.current = setTimeout(() => {
-            nextTrial()
-          }, settings.feedbackSec * 1000)
-        } else {
-          timerRef.current = setTimeout(() => {
-            nextTrial()
-          }, 0)
-        }
-        break
+          finishPresentation()
+        },
+      })
+    }
 
-      default:
-        break
+    if (useVisual) {
+      items.forEach((_, i) => {
+        const node = nodeAt(i)
+        if (node) node.style.visibility = "hidden"
+      })
+
+      cancelPresentation = runSequencePresentation({
+        items,
+        onItemOnset: (i) => {
+          const node = nodeAt(i)
+          if (node) node.style.visibility = "visible"
+        },
+        onItemOffset: (i) => {
+          const node = nodeAt(i)
+          if (node) node.style.visibility = "hidden"
+        },
+        onComplete: (timings) => {
+          const stimulusTimings = timings.slice(0, stimulusCount)
+          const timing = isSequential ? summarizeSequence(stimulusTimings, gapMs) : stimulusTimings[0]
+          cancelPresentation = null
+          presentationRef.current = timing
+          maskTimingRef.current = timings[stimulusCount] || null
+          timingRef.current.stimulusOnset = timing.onset
+          timingRef.current.stimulusOffset = timing.offset
+          finishPresentation()
+        },
+      })
     }
 
-    return () => clearTimer()
-  }, [phase, isPaused, settings, trialIndex, nextTrial, currentStimulus])
+    return () => {
+      if (cancelPresentation) cancelPresentation()
+      if (cancelSpeech) cancelSpeech()
+    }
+  }, [phase, isPaused, session?.entry])
 
   // --- Interactions ---
 
   const handleKeypad = (key) => {
     if (phase !== "ANSWER") return
+    const t = now()
+    if (timingRef.current.firstKey == null) timingRef.current.firstKey = t
+    timingRef.current.keys.push({ key, t })
     if (key === "DELETE") {
       setUserInput((prev) => prev.slice(0, -1))
     } else if (key === "CLEAR") {
       setUserInput("")
     } else {
-      if (userInput.length < settings.digits) {
+      const maxLength = isAnzan
+        ? maxAnswerLength({ count: settings.anzanCount, digits: settings.anzanDigits })
+        : trialLevel.digits
+      if (userInput.length < maxLength) {
         setUserInput((prev) => prev + key)
       }
     }
   }
 
-  const submitAnswer = (verbal = false) => {
-    if (phase !== "ANSWER") return
+  const submitAnswer = () => {
+    if (phase !== "ANSWER" || isPaused) return
+    timingRef.current.confirm = now()
+
+    // フラッシュ暗算は数値として比較し（先頭の0は無視）、位置ごとの採点は行わない
+    const isCorrect = isAnzan ? userInput !== "" && Number(userInput) === Number(expected) : userInput === expected
+    const result = buildResult(session.trial, {
+      input: userInput,
+      isCorrect: isCorrect,
+      score: isAnzan ? null : scoreAnswer(expected, userInput),
+      isVerbal: false,
+    })
+    advanceStaircase(isCorrect)
+    engineRef.current.submit(result)
+  }
+
+  // 口頭回答は検査者の判定で記録する（部分正答は不正解として数える）
+  // 発話内容が入力されていれば、キーパッド回答と同じく位置ごとの採点も行う（検査者画面からは判定と一緒に届く）
+  const submitVerbal = (verbalScore, text = transcript) => {
+    if (phase !== "ANSWER" || isPaused) return
+    timingRef.current.confirm = now()
+
+    const said = normalizeTranscript(text, chars)
+    const isCorrect = verbalScore === "correct"
+    const result = buildResult(session.trial, {
+      input: said || "(Verbal)",
+      isCorrect,
+      score: said && !isAnzan ? scoreAnswer(expected, said) : null,
+      isVerbal: true,
+      verbalScore,
+    })
+    advanceStaircase(isCorrect)
+    engineRef.current.submit(result)
+  }
 
-    let isCorrect = false
+  // 検査者画面からのスキップ: 試行を打ち切り不正解として記録する（適応型のレベルは動かさない）
+  // N-back は項目列全体で一致を判定するため行わない
+  const skipTrial = () => {
+    if (isNback || !session) return
+    engineRef.current.skip(
+      buildResult(session.trial, {
+        input: "(Skip)",
+        isCorrect: false,
+        score: null,
+        isVerbal: settings.answerMode === "none",
+        skipped: true,
+      }),
+    )
+  }
 
-    if (verbal) {
-      isCorrect = true
-    } else {
-      isCorrect = userInput === currentStimulus
+  // 妨害課題の回答（一時停止からの再開でやり直した分も同じ試行に加算する）
+  const recordDistractor = (correct) => {
+    const prev = distractorRef.current ?? { type: settings.distractor, items: 0, correct: 0 }
+    distractorRef.current = { ...prev, items: prev.items + 1, correct: prev.correct + (correct ? 1 : 0) }
+  }
+
+  // N-back: 項目の表示中から次の項目までの間に1回だけ受け付ける
+  const respondMatch = () => {
+    if (!isNback || isPaused || respondedRef.current) return
+    if (phase !== "PREP" && phase !== "SHOW" && phase !== "HIDE") return
+    const t = now()
+    timingRef.current.firstKey = t
+    timingRef.current.keys.push({ key: "MATCH", t })
+    respondedRef.current = true
+    setResponded(true)
+  }
+
+  const togglePause = () => {
+    if (isPaused) engineRef.current.resume()
+    else engineRef.current.pause()
+  }
+
+  // --- Examiner console ---
+  // 状態が変わるたびに検査者画面へ送り、検査者画面からの操作を受け取る
+  useEffect(() => {
+    if (!pairing || !session) return
+    pairing.publish({
+      running: true,
+      mode: settings.mode,
+      answerMode: settings.answerMode,
+      phase: session.phase,
+      paused: session.paused,
+      trialIndex: session.trialIndex,
+      trialCount,
+      stimulus: session.trial.stimulus,
+      expected: session.trial.expected,
+      operands: session.trial.operands ?? null,
+      results: session.results.map(toPairedResult),
+    })
+  }, [session])
+
+  const pairCommandRef = useRef(null)
+  pairCommandRef.current = (command) => {
+    if (command.type === "pause" && !isPaused) engineRef.current.pause()
+    else if (command.type === "resume" && isPaused) engineRef.current.resume()
+    else if (command.type === "skip") skipTrial()
+    else if (command.type === "score" && settings.answerMode === "none") {
+      submitVerbal(command.verbalScore, command.transcript)
     }
+  }
 
-    setResults((prev) => [
-      ...prev,
-      {
-        trial: trialIndex + 1,
-        stimulus: currentStimulus,
-        input: verbal ? "(Verbal)" : userInput,
-        isCorrect: isCorrect,
-        isVerbal: verbal,
-        timestamp: Date.now(),
-      },
-    ])
+  useEffect(() => {
+    if (!pairing) return
+    pairing.commandRef.current = (command) => pairCommandRef.current(command)
+    return () => {
+      pairing.commandRef.current = null
+    }
+  }, [])
 
-    if (settings.feedback) {
-      setFeedbackState(verbal ? "verbal" : isCorrect ? "correct" : "incorrect")
-      setPhase("FEEDBACK")
-    } else {
-      nextTrial()
+  // --- Keyboard ---
+  // 数字/テンキー/英字: 入力, Backspace: 削除, Esc: クリア, Enter: 確定, Space: 一時停止/再開
+  // 口頭回答: 1 正答 / 2 部分正答 / 3 誤答（検査者が押す）
+  // N-back: Enter / M で「一致」
+  // ANSWER以外（一時停止中を含む）で押された回答キーは受け付けず、段階と一時停止の有無を付けて先行反応として記録する
+  // 逆算の妨害課題中は数字キーが妨害課題の回答になるため記録しない
+  const canPause = PAUSABLE_PHASES.includes(phase)
+
+  const keyHandlerRef = useRef(null)
+  keyHandlerRef.current = (e) => {
+    if (!isShortcutTarget(e) || e.repeat) return
+
+    if (e.key === " ") {
+      e.preventDefault()
+      if (isPaused || canPause) togglePause()
+      return
+    }
+
+    if (isNback) {
+      if (e.key === "Enter" || e.key === "m" || e.key === "M") {
+        e.preventDefault()
+        respondMatch()
+      }
+      return
+    }
+
+    if (settings.answerMode === "none" && phase === "ANSWER") {
+      const verbalScore = VERBAL_SCORE_KEYS[e.key]
+      if (verbalScore && !isPaused) {
+        e.preventDefault()
+        submitVerbal(verbalScore)
+      }
+      return
+    }
+
+    const answerKey = readAnswerKey(e, chars)
+    const isResponseKey = answerKey !== null || e.key === "Enter" || e.key === "Backspace" || e.key === "Escape"
+    if (!isResponseKey) return
+    e.preventDefault()
+
+    if (phase !== "ANSWER" || isPaused) {
+      const isDistractorInput = phase === "DISTRACT" && settings.distractor === "countback"
+      const anticipation = { key: answerKey ?? e.key, phase, paused: isPaused, t: now() }
+      if (phase === "FEEDBACK") feedbackKeysRef.current.push(anticipation)
+      else if (phase !== "DONE" && !isDistractorInput) timingRef.current.anticipations.push(anticipation)
+      return
     }
+
+    if (answerKey !== null && settings.answerMode === "keypad") handleKeypad(answerKey)
+    else if (e.key === "Backspace" && settings.answerMode === "keypad") handleKeypad("DELETE")
+    else if (e.key === "Escape" && settings.answerMode === "keypad") handleKeypad("CLEAR")
+    else if (e.key === "Enter" && settings.answerMode === "keypad") submitAnswer()
   }
 
+  useEffect(() => {
+    const onKeyDown = (e) => keyHandlerRef.current(e)
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [])
+
   // --- UI Rendering ---
 
   const renderTopBar = () => (
@@ -751,13 +3100,19 @@ function RunSession({ settings, onFinish, onAbort }) {
       <div className="text-center">
         <div className="text-xs text-gray-400">Trial</div>
         <div className="text-base md:text-lg font-bold text-gray-700">
-          {trialIndex + 1}/{settings.trialsPerSet}
+          {trialIndex + 1}/{trialCount}
         </div>
+        {isAdaptiveRun(settings) && (
+          <div className="text-xs text-blue-600 tabular-nums">
+            {trialLevel.digits}桁 / {formatSec(trialLevel.displaySec)}
+          </div>
+        )}
+        {isNback && <div className="text-xs text-blue-600 tabular-nums">{settings.nbackLevel}-back</div>}
       </div>
       <button
-        onClick={() => setIsPaused(!isPaused)}
+        onClick={togglePause}
         className="p-2 hover:bg-gray-100 rounded-full disabled:opacity-30"
-        disabled={phase !== "SHOW" && phase !== "HIDE"}
+        disabled={!canPause}
       >
         {isPaused ? (
           <Play className="w-5 h-5 md:w-6 md:h-6 text-blue-600" />
@@ -768,24 +3123,119 @@ function RunSession({ settings, onFinish, onAbort }) {
     </div>
   )
 
-  const renderMainArea = () => {
-    if (phase === "SHOW") {
+  // 数字以外の文字セット用キーパッド（セットの並び順で並べる）
+  const renderCharKeypad = () => {
+    const isKana = settings.alphabet === "hiragana" || settings.alphabet === "katakana"
+    const columns = isKana ? "grid-cols-5" : chars.length <= 12 ? "grid-cols-4" : chars.length <= 24 ? "grid-cols-5" : "grid-cols-6"
+    return (
+      <>
+        <div className={`grid ${columns} gap-1.5 md:gap-2 mb-3 md:mb-4 landscape:mb-2`}>
+          {chars.map((char) => (
+            <button
+              key={char}
+              onClick={() => handleKeypad(char)}
+              className="py-2 md:py-3 landscape:py-1.5 rounded-lg bg-white border-2 border-gray-200 hover:border-blue-500 hover:bg-blue-50 text-lg md:text-2xl landscape:text-lg font-bold text-gray-700 active:scale-95 transition-all shadow-sm"
+            >
+              {char}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-2 md:gap-3 landscape:gap-2 mb-4 md:mb-5 landscape:mb-2">
+          <button
+            onClick={() => handleKeypad("DELETE")}
+            className="py-3 md:py-4 landscape:py-2 rounded-xl landscape:rounded-lg bg-red-100 border-2 border-red-200 hover:border-red-500 hover:bg-red-200 flex items-center justify-center active:scale-95 transition-all shadow-sm"
+          >
+            <Delete className="w-5 h-5 md:w-7 md:h-7 landscape:w-6 landscape:h-6 text-red-700" />
+          </button>
+          <button
+            onClick={() => handleKeypad("CLEAR")}
+            className="py-3 md:py-4 landscape:py-2 rounded-xl landscape:rounded-lg bg-gray-100 border-2 border-gray-200 hover:border-gray-400 hover:bg-gray-200 flex items-center justify-center active:scale-95 transition-all shadow-sm"
+          >
+            <RotateCw className="w-4 h-4 md:w-6 md:h-6 landscape:w-5 landscape:h-5 text-gray-600" />
+          </button>
+        </div>
+      </>
+    )
+  }
+
+  const renderShow = () => {
+    if (settings.modality === "audio") {
       return (
-        <div
-          ref={showBoxRef}
-          className="flex-1 flex items-center justify-center animate-fade-in overflow-hidden px-2"
-        >
+        <div className="flex-1 flex items-center justify-center">
+          <Volume2 className="w-16 h-16 md:w-24 md:h-24 landscape:w-12 landscape:h-12 text-blue-600 animate-pulse" />
+        </div>
+      )
+    }
+
+    return (
+      <div ref={showBoxRef} className="flex-1 flex items-center justify-center overflow-hidden px-2">
+        <div className="grid justify-items-center">
           <div
             ref={stimulusRef}
-            className="font-black text-blue-900 tabular-nums leading-none whitespace-nowrap"
+            className={`font-black text-blue-900 tabular-nums leading-none whitespace-nowrap ${isSequential ? "grid" : ""}`}
             style={{
+              gridArea: "1 / 1",
               fontSize: `${stimulusStyle.fontSizePx}px`,
               letterSpacing: `${stimulusStyle.letterSpacingEm}em`,
+              ...(!isSequential && { visibility: "hidden" }),
             }}
           >
-            {currentStimulus}
+            {isSequential
+              ? sequenceItems.map((item, i) => (
+                  <span key={i} className="text-center" style={{ gridArea: "1 / 1", visibility: "hidden" }}>
+                    {item}
+                  </span>
+                ))
+              : currentStimulus}
           </div>
+          {maskText && (
+            <div
+              ref={maskNodeRef}
+              className="font-black text-gray-800 leading-none whitespace-nowrap"
+              style={{
+                gridArea: "1 / 1",
+                fontSize: `${stimulusStyle.fontSizePx}px`,
+                letterSpacing: `${stimulusStyle.letterSpacingEm}em`,
+                visibility: "hidden",
+              }}
+            >
+              {maskText}
+            </div>
+          )}
         </div>
+      </div>
+    )
+  }
+
+  // N-back: 項目を連続して提示し、画面下の「一致」ボタンはセットを通して表示しておく
+  const renderNbackArea = () => (
+    <>
+      {phase === "SHOW" ? renderShow() : <div className="flex-1" />}
+      <div className="w-full max-w-md md:max-w-lg mx-auto px-4 md:px-6 pb-6 md:pb-8 landscape:pb-3">
+        <Button onClick={respondMatch} variant="primary" size="lg" className="w-full" disabled={responded}>
+          一致
+        </Button>
+        <p className="hidden md:block text-center text-xs text-gray-400 mt-3">
+          {settings.nbackLevel}個前と同じなら「一致」 / キーボード: Enter または M / Space 一時停止
+        </p>
+      </div>
+    </>
+  )
+
+  const renderMainArea = () => {
+    if (isNback) return renderNbackArea()
+
+    if (phase === "SHOW") return renderShow()
+
+    if (phase === "DISTRACT") {
+      return (
+        <DistractorTask
+          key={session.entry}
+          type={settings.distractor}
+          seed={deriveSeed(deriveSeed(seed ?? 0, trialIndex), session.entry)}
+          paused={isPaused}
+          onResponse={recordDistractor}
+        />
       )
     }
 
@@ -801,56 +3251,104 @@ function RunSession({ settings, onFinish, onAbort }) {
       return (
         <div className="flex-1 overflow-y-auto flex flex-col items-center justify-start px-4 md:px-6 landscape:px-3 py-4 md:py-6 landscape:py-2">
           <div className="w-full max-w-md md:max-w-lg landscape:max-w-md">
-            <div className="bg-gray-100 rounded-2xl landscape:rounded-xl p-4 md:p-6 landscape:p-3 mb-4 md:mb-6 landscape:mb-3 min-h-[60px] md:min-h-[80px] landscape:min-h-[60px] flex items-center justify-center">
-              <div className="text-3xl md:text-5xl lg:text-6xl landscape:text-4xl font-black text-gray-700 tracking-widest tabular-nums">
-                {userInput || "?"}
-              </div>
-            </div>
-
             {settings.answerMode === "keypad" && (
               <>
-                <div className="grid grid-cols-3 gap-2 md:gap-3 landscape:gap-2 mb-3 md:mb-4 landscape:mb-2">
-                  {[1, 2, 3, 4, 5, 6, 7, 8, 9].map((num) => (
-                    <button
-                      key={num}
-                      onClick={() => handleKeypad(num.toString())}
-                      className="aspect-square rounded-xl landscape:rounded-lg bg-white border-2 border-gray-200 hover:border-blue-500 hover:bg-blue-50 text-xl md:text-3xl lg:text-4xl landscape:text-2xl font-bold text-gray-700 active:scale-95 transition-all shadow-sm"
-                    >
-                      {num}
-                    </button>
-                  ))}
-                </div>
-                <div className="grid grid-cols-3 gap-2 md:gap-3 landscape:gap-2 mb-4 md:mb-5 landscape:mb-2">
-                  <button
-                    onClick={() => handleKeypad("DELETE")}
-                    className="aspect-square rounded-xl landscape:rounded-lg bg-red-100 border-2 border-red-200 hover:border-red-500 hover:bg-red-200 flex items-center justify-center active:scale-95 transition-all shadow-sm"
-                  >
-                    <Delete className="w-5 h-5 md:w-7 md:h-7 landscape:w-6 landscape:h-6 text-red-700" />
-                  </button>
-                  <button
-                    onClick={() => handleKeypad("0")}
-                    className="aspect-square rounded-xl landscape:rounded-lg bg-white border-2 border-gray-200 hover:border-blue-500 hover:bg-blue-50 text-xl md:text-3xl lg:text-4xl landscape:text-2xl font-bold text-gray-700 active:scale-95 transition-all shadow-sm"
-                  >
-                    0
-                  </button>
-                  <button
-                    onClick={() => handleKeypad("CLEAR")}
-                    className="aspect-square rounded-xl landscape:rounded-lg bg-gray-100 border-2 border-gray-200 hover:border-gray-400 hover:bg-gray-200 flex items-center justify-center active:scale-95 transition-all shadow-sm"
-                  >
-                    <RotateCw className="w-4 h-4 md:w-6 md:h-6 landscape:w-5 landscape:h-5 text-gray-600" />
-                  </button>
+                <div className="bg-gray-100 rounded-2xl landscape:rounded-xl p-4 md:p-6 landscape:p-3 mb-4 md:mb-6 landscape:mb-3 min-h-[60px] md:min-h-[80px] landscape:min-h-[60px] flex items-center justify-center">
+                  <div className="text-3xl md:text-5xl lg:text-6xl landscape:text-4xl font-black text-gray-700 tracking-widest tabular-nums">
+                    {userInput || "?"}
+                  </div>
                 </div>
 
-                <Button onClick={() => submitAnswer(false)} variant="success" size="md" className="w-full landscape:py-2">
+                {isAnzan || settings.alphabet === "digits" ? (
+                  <>
+                    <div className="grid grid-cols-3 gap-2 md:gap-3 landscape:gap-2 mb-3 md:mb-4 landscape:mb-2">
+                      {[1, 2, 3, 4, 5, 6, 7, 8, 9].map((num) => (
+                        <button
+                          key={num}
+                          onClick={() => handleKeypad(num.toString())}
+                          className="aspect-square rounded-xl landscape:rounded-lg bg-white border-2 border-gray-200 hover:border-blue-500 hover:bg-blue-50 text-xl md:text-3xl lg:text-4xl landscape:text-2xl font-bold text-gray-700 active:scale-95 transition-all shadow-sm"
+                        >
+                          {num}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="grid grid-cols-3 gap-2 md:gap-3 landscape:gap-2 mb-4 md:mb-5 landscape:mb-2">
+                      <button
+                        onClick={() => handleKeypad("DELETE")}
+                        className="aspect-square rounded-xl landscape:rounded-lg bg-red-100 border-2 border-red-200 hover:border-red-500 hover:bg-red-200 flex items-center justify-center active:scale-95 transition-all shadow-sm"
+                      >
+                        <Delete className="w-5 h-5 md:w-7 md:h-7 landscape:w-6 landscape:h-6 text-red-700" />
+                      </button>
+                      <button
+                        onClick={() => handleKeypad("0")}
+                        className="aspect-square rounded-xl landscape:rounded-lg bg-white border-2 border-gray-200 hover:border-blue-500 hover:bg-blue-50 text-xl md:text-3xl lg:text-4xl landscape:text-2xl font-bold text-gray-700 active:scale-95 transition-all shadow-sm"
+                      >
+                        0
+                      </button>
+                      <button
+                        onClick={() => handleKeypad("CLEAR")}
+                        className="aspect-square rounded-xl landscape:rounded-lg bg-gray-100 border-2 border-gray-200 hover:border-gray-400 hover:bg-gray-200 flex items-center justify-center active:scale-95 transition-all shadow-sm"
+                      >
+                        <RotateCw className="w-4 h-4 md:w-6 md:h-6 landscape:w-5 landscape:h-5 text-gray-600" />
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  renderCharKeypad()
+                )}
+
+                <Button onClick={submitAnswer} variant="success" size="md" className="w-full landscape:py-2">
                   <Check className="mr-2 w-5 h-5 md:w-6 md:h-6 landscape:w-5 landscape:h-5" /> 確定
                 </Button>
+                <p className="hidden md:block text-center text-xs text-gray-400 mt-3">
+                  キーボード: {isAnzan || settings.alphabet === "digits" ? "数字" : "文字"}で入力 / Enter 確定 / Backspace 削除 / Esc クリア / Space 一時停止
+                </p>
               </>
             )}
 
-            {settings.answerMode === "none" && (
-              <Button onClick={() => submitAnswer(true)} variant="primary" size="lg" className="w-full">
-                口頭回答完了
-              </Button>
+            {settings.answerMode === "none" && pairing?.connected && (
+              <div className="text-center text-base md:text-lg text-gray-500 bg-gray-50 rounded-xl p-4 md:p-6">
+                答えを声に出して言ってください
+                <p className="text-xs md:text-sm text-gray-400 mt-1">検査者画面で判定します</p>
+              </div>
+            )}
+
+            {settings.answerMode === "none" && !pairing?.connected && (
+              <div className="space-y-3">
+                <div className="text-center bg-amber-50 border border-amber-200 rounded-xl p-3 md:p-4">
+                  <p className="text-xs md:text-sm text-amber-700 mb-1">
+                    検査者用の正答
+                    {!isAnzan && settings.recallOrder !== "forward" && `（${RECALL_ORDER_LABELS[settings.recallOrder]}）`}
+                  </p>
+                  <div className="text-2xl md:text-4xl landscape:text-2xl font-black text-gray-800 tabular-nums tracking-widest">
+                    {operands ? `${formatExpression(operands)} = ${expected}` : expected}
+                  </div>
+                  {!operands && expected !== currentStimulus && (
+                    <p className="text-xs md:text-sm text-gray-500 mt-1 tabular-nums">提示: {currentStimulus}</p>
+                  )}
+                </div>
+                <input
+                  type="text"
+                  value={transcript}
+                  onChange={(e) => setTranscript(e.target.value.slice(0, 40))}
+                  placeholder="発話内容（任意）"
+                  className="w-full border border-gray-200 rounded-lg px-3 py-2 text-base md:text-lg font-mono focus:outline-none focus:border-blue-400"
+                />
+                <div className="grid grid-cols-3 gap-2 md:gap-3">
+                  <Button onClick={() => submitVerbal("correct")} variant="success" size="md">
+                    {VERBAL_SCORE_LABELS.correct}
+                  </Button>
+                  <Button onClick={() => submitVerbal("partial")} variant="secondary" size="md">
+                    {VERBAL_SCORE_LABELS.partial}
+                  </Button>
+                  <Button onClick={() => submitVerbal("incorrect")} variant="danger" size="md">
+                    {VERBAL_SCORE_LABELS.incorrect}
+                  </Button>
+                </div>
+                <p className="hidden md:block text-center text-xs text-gray-400">
+                  キーボード: 1 正答 / 2 部分正答 / 3 誤答 / Space 一時停止（発話内容の入力中を除く）
+                </p>
+              </div>
             )}
           </div>
         </div>
@@ -871,14 +3369,17 @@ function RunSession({ settings, onFinish, onAbort }) {
               <div className="text-7xl md:text-8xl landscape:text-6xl mb-3 md:mb-5 landscape:mb-2">✗</div>
               <div className="text-2xl md:text-3xl lg:text-4xl landscape:text-xl font-bold text-red-600">不正解</div>
               <div className="text-lg md:text-xl lg:text-2xl landscape:text-base text-gray-500 mt-2 md:mt-3 landscape:mt-1 tabular-nums">
-                {currentStimulus}
+                {expected}
               </div>
             </div>
           )}
-          {feedbackState === "verbal" && (
+          {feedbackState === "partial" && (
             <div className="text-center animate-fade-in">
-              <div className="text-6xl md:text-7xl landscape:text-5xl mb-3 md:mb-5 landscape:mb-2">👍</div>
-              <div className="text-xl md:text-2xl lg:text-3xl landscape:text-lg font-bold text-blue-600">次へ</div>
+              <div className="text-7xl md:text-8xl landscape:text-6xl mb-3 md:mb-5 landscape:mb-2">△</div>
+              <div className="text-2xl md:text-3xl lg:text-4xl landscape:text-xl font-bold text-amber-600">部分正答</div>
+              <div className="text-lg md:text-xl lg:text-2xl landscape:text-base text-gray-500 mt-2 md:mt-3 landscape:mt-1 tabular-nums">
+                {expected}
+              </div>
             </div>
           )}
         </div>
@@ -899,7 +3400,7 @@ function RunSession({ settings, onFinish, onAbort }) {
             <Pause className="w-12 h-12 md:w-16 md:h-16 landscape:w-10 landscape:h-10 text-blue-500 mx-auto mb-3 md:mb-4 landscape:mb-2" />
             <h3 className="text-xl md:text-2xl landscape:text-lg font-bold mb-4 md:mb-6 landscape:mb-3">休憩中</h3>
             <div className="space-y-2 md:space-y-3 landscape:space-y-1.5">
-              <Button onClick={() => setIsPaused(false)} variant="primary" size="md" className="w-full">
+              <Button onClick={togglePause} variant="primary" size="md" className="w-full">
                 再開する
               </Button>
               <Button onClick={onAbort} variant="danger" size="sm" className="w-full bg-white border-0 hover:bg-red-50">
@@ -915,9 +3416,23 @@ function RunSession({ settings, onFinish, onAbort }) {
 
 // --- Result Screen ---
 
-function ResultScreen({ results, onNextSet, onHome }) {
+function ResultScreen({ results, settings, program = null, seed = null, onNextSet, onHome }) {
   const correctCount = results.filter((r) => r.isCorrect).length
   const score = Math.round((correctCount / results.length) * 100)
+  const isAdaptive = isAdaptiveRun(settings)
+  const threshold = isAdaptive ? estimateThreshold(results) : null
+  const lastResult = results[results.length - 1]
+  const scoreSummary = summarizeScores(results)
+  const latency = summarizeLatency(results)
+  const deviatedCount = results.filter((r) => r.presentation?.deviates).length
+  const anticipationCount = results.reduce((sum, r) => sum + (r.timing?.anticipations?.length || 0), 0)
+  const nback = program
+    ? summarizeProgramNback(program.blocks, results)
+    : settings.mode === "nback"
+      ? summarizeNback(results, settings.nbackLevel)
+      : null
+  const distractor = summarizeDistractor(results)
+  const verbal = summarizeVerbal(results)
 
   return (
     <div className="min-h-screen flex flex-col items-center justify-center p-6 md:p-8 bg-gradient-to-br from-blue-50 to-white animate-fade-in">
@@ -925,8 +3440,10 @@ function ResultScreen({ results, onNextSet, onHome }) {
         <div className="text-5xl md:text-6xl lg:text-7xl mb-3 md:mb-5">
           {score === 100 ? "🎉" : score >= 80 ? "🎊" : score >= 60 ? "👏" : "💪"}
         </div>
-        <h2 className="text-2xl md:text-3xl lg:text-4xl font-black text-gray-800 mb-2">訓練完了</h2>
-        <p className="text-gray-500 text-sm md:text-base lg:text-lg">お疲れさまでした</p>
+        <h2 className="text-2xl md:text-3xl lg:text-4xl font-black text-gray-800 mb-2">
+          {program && !program.completed ? "プログラム終了" : "訓練完了"}
+        </h2>
+        <p className="text-gray-500 text-sm md:text-base lg:text-lg">{program ? program.name : "お疲れさまでした"}</p>
       </div>
 
       <div className="bg-white rounded-3xl shadow-2xl p-6 md:p-10 mb-6 md:mb-10 w-full max-w-md md:max-w-lg">
@@ -939,27 +3456,217 @@ function ResultScreen({ results, onNextSet, onHome }) {
             {correctCount}
             <span className="text-xl md:text-2xl lg:text-3xl text-gray-400 font-normal">/{results.length}</span>
           </div>
-          <p className="text-gray-500 mt-2 text-xs md:text-sm lg:text-base">正解数</p>
+          <p className="text-gray-500 mt-2 text-xs md:text-sm lg:text-base">
+            正解数
+            {settings.mode === "anzan"
+              ? `（暗算 ${settings.anzanDigits}桁×${settings.anzanCount}口）`
+              : settings.mode === "nback"
+                ? `（${settings.nbackLevel}-back / ヒット + 正棄却）`
+                : settings.recallOrder !== "forward" && `（${RECALL_ORDER_LABELS[settings.recallOrder]}）`}
+          </p>
         </div>
 
+        {deviatedCount > 0 && (
+          <div className="text-center text-xs md:text-sm text-amber-700 bg-amber-50 rounded-lg p-2 mb-5 md:mb-7">
+            ⚠ {deviatedCount}試行で実際の表示時間が設定値とずれました
+          </div>
+        )}
+
+        {anticipationCount > 0 && (
+          <div className="text-center text-xs md:text-sm text-gray-600 bg-gray-50 rounded-lg p-2 mb-5 md:mb-7">
+            先行反応（回答段階以外のキー入力） {anticipationCount}回
+          </div>
+        )}
+
+        {scoreSummary && (
+          <div className="grid grid-cols-3 gap-2 text-center mb-5 md:mb-7">
+            <div className="bg-gray-50 rounded-xl p-2 md:p-3">
+              <div className="text-lg md:text-xl font-bold text-gray-700 tabular-nums">{scoreSummary.positionRate}%</div>
+              <p className="text-gray-500 text-[10px] md:text-xs">位置正答率</p>
+            </div>
+            <div className="bg-gray-50 rounded-xl p-2 md:p-3">
+              <div className="text-lg md:text-xl font-bold text-gray-700 tabular-nums">{scoreSummary.meanPrefix}</div>
+              <p className="text-gray-500 text-[10px] md:text-xs">平均先頭一致</p>
+            </div>
+            <div className="bg-gray-50 rounded-xl p-2 md:p-3">
+              <div className="text-lg md:text-xl font-bold text-gray-700 tabular-nums">{scoreSummary.meanEditDistance}</div>
+              <p className="text-gray-500 text-[10px] md:text-xs">平均編集距離</p>
+            </div>
+          </div>
+        )}
+
+        {verbal && (
+          <div className="grid grid-cols-3 gap-2 text-center mb-5 md:mb-7">
+            {["correct", "partial", "incorrect"].map((key) => (
+              <div key={key} className="bg-gray-50 rounded-xl p-2 md:p-3">
+                <div className="text-lg md:text-xl font-bold text-gray-700 tabular-nums">{verbal[key]}</div>
+                <p className="text-gray-500 text-[10px] md:text-xs">口頭: {VERBAL_SCORE_LABELS[key]}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {distractor && (
+          <div className="text-center bg-purple-50 rounded-xl p-3 mb-5 md:mb-7">
+            <p className="text-gray-500 text-xs md:text-sm mb-1">妨害課題の正答率（再生の正答とは別集計）</p>
+            <div className="text-xl md:text-2xl font-bold text-purple-900 tabular-nums">
+              {distractor.rate != null ? `${distractor.rate}%` : "—"}
+              <span className="text-sm md:text-base text-gray-400 font-normal ml-2">
+                {distractor.correct}/{distractor.items}
+              </span>
+            </div>
+          </div>
+        )}
+
+        {nback && (
+          <div className="mb-5 md:mb-7">
+            <div className="grid grid-cols-4 gap-2 text-center mb-2">
+              {[
+                ["hit", nback.hits],
+                ["miss", nback.misses],
+                ["falseAlarm", nback.falseAlarms],
+                ["correctRejection", nback.correctRejections],
+              ].map(([outcome, count]) => (
+                <div key={outcome} className="bg-gray-50 rounded-xl p-2 md:p-3">
+                  <div className="text-lg md:text-xl font-bold text-gray-700 tabular-nums">{count}</div>
+                  <p className="text-gray-500 text-[10px] md:text-xs">{NBACK_OUTCOME_LABELS[outcome]}</p>
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-2 text-center">
+              <div className="bg-blue-50 rounded-xl p-2 md:p-3">
+                <div className="text-lg md:text-xl font-bold text-blue-900 tabular-nums">{nback.dPrime.toFixed(2)}</div>
+                <p className="text-gray-500 text-[10px] md:text-xs">d′</p>
+              </div>
+              <div className="bg-gray-50 rounded-xl p-2 md:p-3">
+                <div className="text-lg md:text-xl font-bold text-gray-700 tabular-nums">
+                  {nback.hitRtMs != null ? `${nback.hitRtMs}ms` : "—"}
+                </div>
+                <p className="text-gray-500 text-[10px] md:text-xs">ヒット反応時間の中央値</p>
+              </div>
+            </div>
+            {settings.nbackAutoLevel && !program && (
+              <p className="text-center text-xs md:text-sm text-blue-700 mt-2">
+                次のセット: {nextNbackLevel(nback)}-back
+              </p>
+            )}
+          </div>
+        )}
+
+        {(latency.firstKeyMs != null || latency.responseMs != null) && (
+          <div className="grid grid-cols-2 gap-2 text-center mb-5 md:mb-7">
+            <div className="bg-gray-50 rounded-xl p-2 md:p-3">
+              <div className="text-lg md:text-xl font-bold text-gray-700 tabular-nums">
+                {latency.firstKeyMs != null ? `${latency.firstKeyMs}ms` : "—"}
+              </div>
+              <p className="text-gray-500 text-[10px] md:text-xs">初回入力までの中央値</p>
+            </div>
+            <div className="bg-gray-50 rounded-xl p-2 md:p-3">
+              <div className="text-lg md:text-xl font-bold text-gray-700 tabular-nums">
+                {latency.responseMs != null ? `${latency.responseMs}ms` : "—"}
+              </div>
+              <p className="text-gray-500 text-[10px] md:text-xs">確定までの中央値</p>
+            </div>
+          </div>
+        )}
+
+        {program && (
+          <div className="space-y-1 mb-5 md:mb-7">
+            {program.blocks.map((b, i) => (
+              <div
+                key={i}
+                className="flex justify-between items-center bg-gray-50 rounded-lg px-3 py-2 text-xs md:text-sm"
+              >
+                <span className="font-bold text-gray-700">
+                  ブロック {b.block}
+                  {b.attempt > 1 && <span className="font-normal text-gray-400">（{b.attempt}回目）</span>}
+                </span>
+                <span className="text-gray-500">{describeBlock(b.overrides, settings)}</span>
+                {b.nback && <span className="text-blue-700 tabular-nums">d′ {b.nback.dPrime.toFixed(2)}</span>}
+                <span className={`tabular-nums font-bold ${b.passed ? "text-green-700" : "text-red-600"}`}>
+                  {b.correct}/{b.total}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isAdaptive && !program && (
+          <div className="text-center mb-5 md:mb-7 bg-blue-50 rounded-xl p-3 md:p-4">
+            <p className="text-gray-500 text-xs md:text-sm mb-1">推定閾値</p>
+            {threshold ? (
+              <>
+                <div className="text-xl md:text-2xl font-bold text-blue-900 tabular-nums">
+                  {threshold.digits}桁 / {formatSec(threshold.displaySec)}
+                </div>
+                <p className="text-gray-400 text-xs mt-1">反転 {threshold.reversals}回</p>
+              </>
+            ) : (
+              <>
+                <div className="text-xl md:text-2xl font-bold text-gray-500">未収束</div>
+                {lastResult && (
+                  <p className="text-gray-400 text-xs mt-1">
+                    最終レベル {lastResult.digits}桁 / {formatSec(lastResult.displaySec)}
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
         <div className="space-y-2">
           {results.map((r, i) => (
             <div
               key={i}
               className={`flex justify-between items-center p-2.5 md:p-3 rounded-lg text-sm md:text-base ${
-                r.isCorrect ? "bg-green-50" : "bg-red-50"
+                r.isCorrect ? "bg-green-50" : r.verbalScore === "partial" ? "bg-amber-50" : "bg-red-50"
               }`}
             >
-              <span className="font-mono font-bold text-base md:text-lg">{r.trial}</span>
-              <span className="font-mono text-gray-700 text-sm md:text-base">{r.stimulus}</span>
+              <span className="font-mono font-bold text-base md:text-lg">
+                {r.block ? `${r.block}-${r.trial}` : r.trial}
+              </span>
+              {r.nback ? (
+                <span className="font-mono text-gray-700 text-sm md:text-base">
+                  {r.stimulus}
+                  <span className="text-gray-400 text-xs md:text-sm"> {NBACK_OUTCOME_LABELS[r.nback]}</span>
+                </span>
+              ) : r.operands ? (
+                <span className="font-mono text-gray-700 text-sm md:text-base">
+                  {formatExpression(r.operands)} = {r.expected}
+                  {!r.isCorrect && !r.skipped && r.input !== "(Verbal)" && (
+                    <span className="text-red-600"> ({r.input || "—"})</span>
+                  )}
+                </span>
+              ) : (
+                <span className="font-mono text-gray-700 text-sm md:text-base">
+                  {r.stimulus}
+                  {r.expected && r.expected !== r.stimulus && <span className="text-gray-400"> → {r.expected}</span>}
+                </span>
+              )}
+              {isAdaptive && (
+                <span className="text-gray-500 text-xs md:text-sm tabular-nums">{formatSec(r.displaySec)}</span>
+              )}
+              {r.presentation?.deviates && (
+                <span className="text-amber-600 text-xs md:text-sm tabular-nums">
+                  {Math.round(r.presentation.measuredMs)}ms
+                </span>
+              )}
+              {r.skipped && <span className="text-gray-400 text-xs md:text-sm">スキップ</span>}
+              {!r.isCorrect && r.score && (
+                <span className="text-gray-500 text-xs md:text-sm tabular-nums">
+                  {r.score.positionCorrect}/{(r.expected || r.stimulus).length}
+                </span>
+              )}
               <span className={`text-xl md:text-2xl ${r.isCorrect ? "" : "opacity-50"}`}>
-                {r.isCorrect ? "✓" : "✗"}
+                {r.isCorrect ? "✓" : r.verbalScore === "partial" ? "△" : "✗"}
               </span>
             </div>
           ))}
         </div>
       </div>
 
+      {seed != null && <p className="text-xs text-gray-400 font-mono mb-3">seed {seed}</p>}
+
       <div className="flex gap-3 md:gap-4 w-full max-w-md md:max-w-lg">
         <Button onClick={onHome} variant="secondary" size="md" className="flex-1">
           ホームへ
@@ -0,0 +1,237 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Pause, Play, SkipForward } from "lucide-react"
+import { formatExpression } from "@/lib/anzan"
+import { openPairChannel, type ExaminerCommand, type PairChannel, type TraineeStatus } from "@/lib/pairing"
+import { VERBAL_SCORE_LABELS, type VerbalScore } from "@/lib/scoring"
+import { PAUSABLE_PHASES, SESSION_PHASE_LABELS } from "@/lib/session"
+
+const MODE_LABELS: Record<string, string> = { sequence: "数字列", single: "単発", anzan: "暗算", nback: "N-back" }
+
+const VERBAL_SCORE_KEYS: Record<string, VerbalScore> = { 1: "correct", 2: "partial", 3: "incorrect" }
+
+const VERBAL_BUTTON_STYLES: Record<VerbalScore, string> = {
+  correct: "bg-green-600 text-white hover:bg-green-700",
+  partial: "bg-amber-100 text-amber-800 hover:bg-amber-200 border border-amber-200",
+  incorrect: "bg-red-100 text-red-700 hover:bg-red-200 border border-red-200",
+}
+
+const CONTROL_STYLE =
+  "flex-1 flex items-center justify-center gap-1 py-3 rounded-xl font-bold text-sm md:text-base transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+
+// 入力欄での文字入力や修飾キー付きの操作はショートカットとして扱わない
+const isShortcutTarget = (e: KeyboardEvent) => {
+  if (e.ctrlKey || e.metaKey || e.altKey) return false
+  const tag = (e.target as HTMLElement | null)?.tagName
+  return tag !== "INPUT" && tag !== "TEXTAREA" && tag !== "SELECT"
+}
+
+/**
+ * 検査者画面: 訓練者画面の刺激・段階・結果を表示し、進行の操作と口頭回答の判定を送る。
+ */
+export function ExaminerConsole() {
+  const [status, setStatus] = useState<TraineeStatus | null>(null) // null = 訓練者画面と未接続
+  const [transcript, setTranscript] = useState("")
+  const channelRef = useRef<PairChannel | null>(null)
+
+  useEffect(() => {
+    const channel = openPairChannel("examiner", (message) => {
+      if (message.type === "status") setStatus(message.status)
+      else if (message.type === "bye") setStatus(null)
+    })
+    channelRef.current = channel
+    const onPageHide = () => channel?.close()
+    window.addEventListener("pagehide", onPageHide)
+    return () => {
+      window.removeEventListener("pagehide", onPageHide)
+      channel?.close()
+    }
+  }, [])
+
+  // 試行が変わったら発話内容の入力を空にする
+  useEffect(() => {
+    setTranscript("")
+  }, [status?.running, status?.trialIndex])
+
+  const running = !!status?.running
+  const phase = status?.phase ?? null
+  const canStart = !!status && !running
+  const canPause = running && !!phase && !status.paused && PAUSABLE_PHASES.includes(phase)
+  const canSkip = running && status.mode !== "nback" && phase !== "FEEDBACK" && phase !== "DONE"
+  const canScore = running && status.answerMode === "none" && phase === "ANSWER" && !status.paused
+  const results = status?.results ?? []
+  const correctCount = results.filter((r) => r.isCorrect).length
+
+  const send = (command: ExaminerCommand) => channelRef.current?.send({ type: "command", command })
+
+  const score = (verbalScore: VerbalScore) => {
+    if (!canScore) return
+    send({ type: "score", verbalScore, transcript })
+  }
+
+  const togglePause = () => {
+    if (status?.paused) send({ type: "resume" })
+    else if (canPause) send({ type: "pause" })
+  }
+
+  // 1 正答 / 2 部分正答 / 3 誤答, Space: 一時停止/再開
+  const keyHandlerRef = useRef<(e: KeyboardEvent) => void>(() => {})
+  keyHandlerRef.current = (e) => {
+    if (!isShortcutTarget(e) || e.repeat) return
+    if (e.key === " ") {
+      e.preventDefault()
+      togglePause()
+    } else if (VERBAL_SCORE_KEYS[e.key] && canScore) {
+      e.preventDefault()
+      score(VERBAL_SCORE_KEYS[e.key])
+    }
+  }
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => keyHandlerRef.current(e)
+    window.addEventListener("keydown", onKeyDown)
+    return () => window.removeEventListener("keydown", onKeyDown)
+  }, [])
+
+  return (
+    <div className="min-h-screen bg-gray-50 font-sans text-gray-900">
+      <div className="mx-auto max-w-lg md:max-w-3xl min-h-screen bg-white sm:shadow-xl p-4 md:p-8 space-y-4 md:space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-xl md:text-2xl font-black text-blue-900">検査者画面</h1>
+          <span
+            className={`text-xs md:text-sm font-bold rounded-full px-3 py-1 ${status ? "bg-green-100 text-green-700" : "bg-gray-100 text-gray-500"}`}
+          >
+            {status ? "訓練者画面と接続中" : "未接続"}
+          </span>
+        </div>
+
+        {!status ? (
+          <div className="text-center text-sm md:text-base text-gray-500 bg-gray-50 rounded-xl p-6">
+            同じブラウザで訓練者画面を開くと接続します
+          </div>
+        ) : (
+          <>
+            <div className="bg-gray-50 rounded-2xl p-4 md:p-6">
+              <div className="flex justify-between items-center text-xs md:text-sm text-gray-500 mb-3">
+                <span>
+                  {running
+                    ? `${MODE_LABELS[status.mode] ?? status.mode} / 試行 ${status.trialIndex + 1}/${status.trialCount}`
+                    : "待機中"}
+                </span>
+                <span className="font-bold text-blue-700">
+                  {status.paused ? "一時停止中" : running && phase ? SESSION_PHASE_LABELS[phase] : ""}
+                </span>
+              </div>
+              {running ? (
+                <div className="text-center space-y-2">
+                  <p className="text-xs md:text-sm text-gray-500">刺激</p>
+                  <div className="text-3xl md:text-5xl font-black text-gray-800 tabular-nums tracking-widest break-all">
+                    {status.operands ? formatExpression(status.operands) : status.stimulus || "—"}
+                  </div>
+                  {status.mode !== "nback" && (
+                    <p className="text-sm md:text-base text-gray-600">
+                      正答 <span className="font-bold text-blue-900 tabular-nums">{status.expected}</span>
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <p className="text-center text-sm md:text-base text-gray-500">
+                  「開始」で訓練者画面の現在の設定で訓練を始めます
+                </p>
+              )}
+            </div>
+
+            <div className="flex gap-2 md:gap-3">
+              <button
+                onClick={() => send({ type: "start" })}
+                disabled={!canStart}
+                className={`${CONTROL_STYLE} bg-blue-600 text-white hover:bg-blue-700`}
+              >
+                <Play className="w-5 h-5" /> 開始
+              </button>
+              <button
+                onClick={togglePause}
+                disabled={!status.paused && !canPause}
+                className={`${CONTROL_STYLE} bg-gray-100 text-gray-800 hover:bg-gray-200 border border-gray-300`}
+              >
+                {status.paused ? <Play className="w-5 h-5" /> : <Pause className="w-5 h-5" />}
+                {status.paused ? "再開" : "一時停止"}
+              </button>
+              <button
+                onClick={() => send({ type: "skip" })}
+                disabled={!canSkip}
+                className={`${CONTROL_STYLE} bg-gray-100 text-gray-800 hover:bg-gray-200 border border-gray-300`}
+              >
+                <SkipForward className="w-5 h-5" /> スキップ
+              </button>
+            </div>
+
+            {running && status.answerMode === "none" && status.mode !== "nback" && (
+              <div className="space-y-3 bg-amber-50 border border-amber-200 rounded-xl p-3 md:p-4">
+                <p className="text-xs md:text-sm font-bold text-amber-700">口頭回答の判定</p>
+                <input
+                  type="text"
+                  value={transcript}
+                  onChange={(e) => setTranscript(e.target.value.slice(0, 40))}
+                  disabled={!canScore}
+                  placeholder="発話内容（任意）"
+                  className="w-full bg-white border border-gray-200 rounded-lg px-3 py-2 text-base md:text-lg font-mono focus:outline-none focus:border-blue-400 disabled:opacity-50"
+                />
+                <div className="grid grid-cols-3 gap-2 md:gap-3">
+                  {(["correct", "partial", "incorrect"] as VerbalScore[]).map((key) => (
+                    <button
+                      key={key}
+                      onClick={() => score(key)}
+                      disabled={!canScore}
+                      className={`py-3 rounded-xl font-bold text-sm md:text-base transition-all disabled:opacity-40 disabled:cursor-not-allowed ${VERBAL_BUTTON_STYLES[key]}`}
+                    >
+                      {VERBAL_SCORE_LABELS[key]}
+                    </button>
+                  ))}
+                </div>
+                <p className="hidden md:block text-center text-xs text-gray-400">
+                  キーボード: 1 正答 / 2 部分正答 / 3 誤答 / Space 一時停止（回答の段階で判定できます）
+                </p>
+              </div>
+            )}
+
+            {results.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex justify-between items-baseline">
+                  <h2 className="text-sm md:text-base font-bold text-gray-700">結果</h2>
+                  <span className="text-sm md:text-base font-bold text-gray-700 tabular-nums">
+                    {correctCount}
+                    <span className="text-gray-400 font-normal">/{results.length}</span>
+                  </span>
+                </div>
+                {results
+                  .slice()
+                  .reverse()
+                  .map((r) => (
+                    <div
+                      key={r.trial}
+                      className={`flex justify-between items-center p-2.5 rounded-lg text-sm md:text-base ${
+                        r.isCorrect ? "bg-green-50" : r.verbalScore === "partial" ? "bg-amber-50" : "bg-red-50"
+                      }`}
+                    >
+                      <span className="font-mono font-bold">{r.trial}</span>
+                      <span className="font-mono text-gray-700">
+                        {status.mode === "nback" ? r.stimulus : r.expected}
+                        {!r.isCorrect && !r.skipped && r.input && r.input !== "(Verbal)" && (
+                          <span className="text-red-600"> ({r.input})</span>
+                        )}
+                      </span>
+                      <span className="text-lg">
+                        {r.skipped ? "スキップ" : r.isCorrect ? "✓" : r.verbalScore === "partial" ? "△" : "✗"}
+                      </span>
+                    </div>
+                  ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,148 @@
+"use client"
+
+import { useMemo, useState, type ReactElement } from "react"
+import { Bar, BarChart, CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import {
+  DEFAULT_PROGRESS_FILTER,
+  accuracySeries,
+  filterHistory,
+  maxDigitsByDay,
+  sessionsByWeek,
+  shortestDisplayByDigits,
+  type ProgressFilter,
+  type SessionLike,
+} from "@/lib/progress"
+import { RECALL_ORDER_LABELS } from "@/lib/recall"
+
+const RANGE_OPTIONS = [
+  { value: 7, label: "7日" },
+  { value: 30, label: "30日" },
+  { value: 90, label: "90日" },
+  { value: null, label: "全期間" },
+]
+
+const MODE_OPTIONS = [
+  { value: "all", label: "すべて" },
+  { value: "sequence", label: "数字列" },
+  { value: "single", label: "単発" },
+  { value: "anzan", label: "暗算" },
+  { value: "nback", label: "N-back" },
+]
+
+const RECALL_OPTIONS = [{ value: "all", label: "すべて" }].concat(
+  Object.entries(RECALL_ORDER_LABELS).map(([value, label]) => ({ value, label })),
+)
+
+function Segmented<T extends string | number | null>({
+  options,
+  value,
+  onChange,
+}: {
+  options: { value: T; label: string }[]
+  value: T
+  onChange: (value: T) => void
+}) {
+  return (
+    <div className="flex bg-gray-100 p-1 rounded-lg">
+      {options.map((opt) => (
+        <button
+          key={String(opt.value)}
+          onClick={() => onChange(opt.value)}
+          className={`flex-1 py-1.5 text-xs md:text-sm rounded-md transition-all ${value === opt.value ? "bg-white shadow text-blue-700 font-bold" : "text-gray-500"}`}
+        >
+          {opt.label}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+function ChartCard({ title, empty, children }: { title: string; empty: boolean; children: ReactElement }) {
+  return (
+    <div className="bg-white p-3 md:p-4 rounded-lg border border-gray-200">
+      <h3 className="text-sm md:text-base font-bold text-gray-700 mb-2">{title}</h3>
+      {empty ? (
+        <div className="h-40 flex items-center justify-center text-xs text-gray-400">データがありません</div>
+      ) : (
+        <div className="h-40 md:h-48">
+          <ResponsiveContainer width="100%" height="100%">
+            {children}
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  )
+}
+
+const AXIS_TICK = { fontSize: 11, fill: "#6b7280" }
+
+export function HistoryDashboard({ history }: { history: SessionLike[] }) {
+  const [filter, setFilter] = useState<ProgressFilter>(DEFAULT_PROGRESS_FILTER)
+
+  const filtered = useMemo(() => filterHistory(history, filter), [history, filter])
+  const accuracy = useMemo(() => accuracySeries(filtered), [filtered])
+  const maxDigits = useMemo(() => maxDigitsByDay(filtered), [filtered])
+  const shortest = useMemo(() => shortestDisplayByDigits(filtered), [filtered])
+  const weekly = useMemo(() => sessionsByWeek(filtered), [filtered])
+
+  return (
+    <div className="space-y-3 md:space-y-4">
+      <div className="bg-gray-50 p-3 rounded-lg border border-gray-200 space-y-2">
+        <Segmented
+          options={RANGE_OPTIONS}
+          value={filter.rangeDays}
+          onChange={(rangeDays) => setFilter({ ...filter, rangeDays })}
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <Segmented options={MODE_OPTIONS} value={filter.mode} onChange={(mode) => setFilter({ ...filter, mode })} />
+          <Segmented
+            options={RECALL_OPTIONS}
+            value={filter.recallOrder}
+            onChange={(recallOrder) => setFilter({ ...filter, recallOrder })}
+          />
+        </div>
+        <p className="text-xs text-gray-500 text-right">{filtered.length}セッション</p>
+      </div>
+
+      <ChartCard title="正答率の推移" empty={accuracy.length === 0}>
+        <LineChart data={accuracy} margin={{ top: 5, right: 10, left: -20, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+          <XAxis dataKey="label" tick={AXIS_TICK} minTickGap={16} />
+          <YAxis domain={[0, 100]} tick={AXIS_TICK} unit="%" />
+          <Tooltip formatter={(value) => [`${value}%`, "正答率"]} />
+          <Line type="monotone" dataKey="accuracy" stroke="#2563eb" strokeWidth={2} dot={{ r: 2 }} />
+        </LineChart>
+      </ChartCard>
+
+      <ChartCard title="日ごとの最大通過桁数" empty={maxDigits.length === 0}>
+        <LineChart data={maxDigits} margin={{ top: 5, right: 10, left: -20, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+          <XAxis dataKey="label" tick={AXIS_TICK} minTickGap={16} />
+          <YAxis allowDecimals={false} tick={AXIS_TICK} />
+          <Tooltip formatter={(value) => [`${value}桁`, "最大桁数"]} />
+          <Line type="stepAfter" dataKey="maxDigits" stroke="#16a34a" strokeWidth={2} dot={{ r: 2 }} />
+        </LineChart>
+      </ChartCard>
+
+      <ChartCard title="桁数ごとの最短成功表示時間（数字列）" empty={shortest.length === 0}>
+        <BarChart data={shortest} margin={{ top: 5, right: 10, left: -20, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+          <XAxis dataKey="label" tick={AXIS_TICK} />
+          <YAxis tick={AXIS_TICK} unit="s" />
+          <Tooltip formatter={(value) => [`${Number(value).toFixed(2)}s`, "最短表示時間"]} />
+          <Bar dataKey="displaySec" fill="#7c3aed" radius={[4, 4, 0, 0]} />
+        </BarChart>
+      </ChartCard>
+
+      <ChartCard title="週ごとの実施回数" empty={weekly.length === 0}>
+        <BarChart data={weekly} margin={{ top: 5, right: 10, left: -20, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+          <XAxis dataKey="label" tick={AXIS_TICK} />
+          <YAxis allowDecimals={false} tick={AXIS_TICK} />
+          <Tooltip formatter={(value) => [`${value}回`, "実施回数"]} />
+          <Bar dataKey="count" fill="#f59e0b" radius={[4, 4, 0, 0]} />
+        </BarChart>
+      </ChartCard>
+    </div>
+  )
+}
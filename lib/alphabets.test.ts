@@ -0,0 +1,12 @@
+import { describe, expect, it } from "vitest"
+import { parseCustomChars } from "@/lib/alphabets"
+
+describe("parseCustomChars", () => {
+  it("1文字ずつに分け、空白・区切り・重複を除く", () => {
+    expect(parseCustomChars("A B,C、A\tD")).toEqual(["A", "B", "C", "D"])
+  })
+
+  it("サロゲートペアの文字は分割せずに除く", () => {
+    expect(parseCustomChars("あ😀い𠮷う")).toEqual(["あ", "い", "う"])
+  })
+})
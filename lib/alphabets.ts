@@ -0,0 +1,52 @@
+/**
+ * 刺激に使う文字セット
+ * - digits: 数字（numberRange で 0-9 / 1-9）
+ * - consonants: ラテン文字の子音（文字スパン用。母音を除き単語になりにくくする）
+ * - hiragana / katakana: 清音46文字
+ * - alphanumeric: 数字と英大文字（見間違えやすい I・O を除く）
+ * - custom: ユーザー定義（1文字ずつ。重複・空白・サロゲートペアの文字は除く）
+ * - 並び順はセットの定義順とし、昇順の再生や連続の判定に使う
+ */
+
+export type NumberRange = "0-9" | "1-9"
+
+export type AlphabetId = "digits" | "consonants" | "hiragana" | "katakana" | "alphanumeric" | "custom"
+
+export interface AlphabetSettings {
+  alphabet: AlphabetId
+  numberRange: NumberRange
+  customChars: string
+}
+
+const HIRAGANA = "あいうえおかきくけこさしすせそたちつてとなにぬねのはひふへほまみむめもやゆよらりるれろわをん"
+const KATAKANA = "アイウエオカキクケコサシスセソタチツテトナニヌネノハヒフヘホマミムメモヤユヨラリルレロワヲン"
+
+export const ALPHABET_LABELS: Record<AlphabetId, string> = {
+  digits: "数字",
+  consonants: "英子音",
+  hiragana: "ひらがな",
+  katakana: "カタカナ",
+  alphanumeric: "英数字",
+  custom: "カスタム",
+}
+
+// サロゲートペア（絵文字・一部の漢字）など2単位以上の文字は除く（刺激を1文字=1単位で扱うため）
+export const parseCustomChars = (text: string) =>
+  [...new Set(Array.from(text).filter((c) => c.length === 1 && c.trim() !== "" && c !== "," && c !== "、"))]
+
+export const alphabetChars = ({ alphabet, numberRange, customChars }: AlphabetSettings) => {
+  switch (alphabet) {
+    case "consonants":
+      return "BCDFGHJKLMNPQRSTVWXZ".split("")
+    case "hiragana":
+      return HIRAGANA.split("")
+    case "katakana":
+      return KATAKANA.split("")
+    case "alphanumeric":
+      return "0123456789ABCDEFGHJKLMNPQRSTUVWXYZ".split("")
+    case "custom":
+      return parseCustomChars(customChars)
+    default:
+      return (numberRange === "1-9" ? "123456789" : "0123456789").split("")
+  }
+}
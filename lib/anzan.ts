@@ -0,0 +1,56 @@
+import type { Random } from "@/lib/random"
+
+/**
+ * フラッシュ暗算の問題
+ * - count 口（個）の digits 桁の数を1つずつ見せ、その合計を答える
+ * - 各数は digits 桁ちょうど（1桁なら1〜9）。同じ数は続けない
+ * - subtract: 2口目以降を確率1/2で引き算にする。途中の合計が負になる場合は足し算にする
+ * - 問題は符号付きの数の列（operands）で表し、履歴・再実施用には空白区切りの文字列にする
+ */
+
+export interface AnzanOptions {
+  count: number
+  digits: number
+  subtract: boolean
+}
+
+export interface AnzanProblem {
+  operands: number[] // 引き算は負の数
+  answer: number
+}
+
+export const generateAnzan = ({ count, digits, subtract }: AnzanOptions, random: Random): AnzanProblem => {
+  const min = digits <= 1 ? 1 : 10 ** (digits - 1)
+  const max = 10 ** digits - 1
+  const operands: number[] = []
+  let total = 0
+
+  for (let i = 0; i < count; i++) {
+    let value = min + Math.floor(random() * (max - min + 1))
+    // 同じ数を続けない（選べる数が1つしかない場合を除く）
+    if (max > min && value === Math.abs(operands[i - 1] ?? 0)) value = value === max ? min : value + 1
+    const sign = subtract && i > 0 && total - value >= 0 && random() < 0.5 ? -1 : 1
+    operands.push(sign * value)
+    total += sign * value
+  }
+  return { operands, answer: total }
+}
+
+export const sumOperands = (operands: number[]) => operands.reduce((sum, value) => sum + value, 0)
+
+// 履歴の stimulus（"12 -5 34"）との相互変換
+export const serializeOperands = (operands: number[]) => operands.join(" ")
+
+export const parseOperands = (stimulus: string) => stimulus.trim().split(/\s+/).map(Number)
+
+// 画面表示用（引き算はマイナス記号 "−" を付ける）
+export const formatOperand = (value: number) => (value < 0 ? `−${-value}` : `${value}`)
+
+export const formatExpression = (operands: number[]) =>
+  operands.map((value, i) => (i === 0 ? formatOperand(value) : value < 0 ? ` − ${-value}` : ` + ${value}`)).join("")
+
+/**
+ * 回答欄の最大桁数（答えの桁数を明かさないよう、設定上の最大の合計から決める）。
+ */
+export const maxAnswerLength = ({ count, digits }: Pick<AnzanOptions, "count" | "digits">) =>
+  String(count * (10 ** digits - 1)).length
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest"
+import { parseBackup } from "@/lib/backup"
+
+const backupWith = (record: Record<string, unknown>, profile: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    app: "flash-number-trainer",
+    version: 1,
+    exportedAt: 0,
+    profiles: [
+      {
+        id: "default",
+        name: "ゲスト",
+        createdAt: 0,
+        settings: null,
+        history: [{ timestamp: 1, settings: {}, results: [], total: 0, correct: 0, ...record }],
+        ...profile,
+      },
+    ],
+  })
+
+describe("parseBackup", () => {
+  it("schemaVersion のない旧形式と現行バージョンの履歴を受け付ける", () => {
+    expect(parseBackup(backupWith({})).ok).toBe(true)
+    expect(parseBackup(backupWith({ schemaVersion: 1 })).ok).toBe(true)
+    expect(parseBackup(backupWith({ schemaVersion: 2 })).ok).toBe(true)
+  })
+
+  it.each([0, 1.5, 99, "2"])("移行できない schemaVersion (%s) は拒否する", (schemaVersion) => {
+    const parsed = parseBackup(backupWith({ schemaVersion }))
+    expect(parsed.ok).toBe(false)
+    if (!parsed.ok) expect(parsed.error).toContain("schemaVersion")
+  })
+
+  it("設定の既知の項目を検証し、未知の項目は残す", () => {
+    const parsed = parseBackup(backupWith({}, { settings: { digits: 5, mode: "single", note: "memo" } }))
+    expect(parsed.ok).toBe(true)
+    if (parsed.ok) expect(parsed.backup.profiles[0].settings).toEqual({ digits: 5, mode: "single", note: "memo" })
+  })
+
+  it.each([
+    ["プロフィールの設定", "digits", {}, { settings: { digits: "abc" } }],
+    ["プロフィールの設定", "mode", {}, { settings: { mode: "foo" } }],
+    ["プリセット", "displaySec", {}, { presets: [{ id: "p", name: "p", settings: { displaySec: -1 } }] }],
+    ["履歴の設定", "trialsPerSet", { settings: { trialsPerSet: 0 } }, {}],
+  ])("%s の %s が不正なら拒否する", (_, key, record, profile) => {
+    const parsed = parseBackup(backupWith(record, profile))
+    expect(parsed.ok).toBe(false)
+    if (!parsed.ok) expect(parsed.error).toContain(key)
+  })
+})
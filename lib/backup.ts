@@ -0,0 +1,258 @@
+import { z } from "zod"
+import { settingsKey, saveProfiles, type Profile } from "@/lib/profiles"
+import { HISTORY_RECORD_VERSION, loadHistory, putHistoryRecords, type HistoryWrite } from "@/lib/history-db"
+import { loadPrograms, savePrograms } from "@/lib/programs"
+import { loadPresets, savePresets } from "@/lib/presets"
+import { MAX_NBACK_LEVEL, MIN_NBACK_LEVEL } from "@/lib/nback"
+import { MAX_SEED } from "@/lib/random"
+
+/**
+ * 全データのバックアップ/復元（JSON）
+ * - 全プロフィールの設定・プリセット・訓練プログラム・履歴（試行ごとの結果を含む）を1ファイルにまとめる
+ * - 読み込み時は zod で検証し、適用前にプレビューを作る
+ * - 設定（プロフィール・プリセット・プログラムのブロック・履歴）は既知の項目の型と範囲を検証する。
+ *   未知の項目はそのまま残し、値が不正なファイルは読み込まない
+ * - merge: 既存の設定・プリセット・プログラムを残し、同じ timestamp の履歴は重複として除外して追加
+ * - replace: バックアップに含まれるプロフィールの設定・プリセット・プログラム・履歴を置き換える
+ * - バックアップに含まれない端末上のプロフィールはどちらのモードでも変更しない
+ * - 適用時は履歴を全プロフィール分まとめて1トランザクションで書き込み、成功してから設定等とプロフィール一覧を保存する
+ */
+
+const BACKUP_APP = "flash-number-trainer"
+const BACKUP_VERSION = 1
+
+export type ImportMode = "merge" | "replace"
+
+// 設定の項目（すべて省略可。古いバックアップにない項目は既定値で補われる）
+const settingsSchema = z
+  .object({
+    mode: z.enum(["sequence", "single", "anzan", "nback"]),
+    digits: z.number().int().min(1),
+    displaySec: z.number().positive(),
+    digitOnSec: z.number().positive(),
+    digitGapSec: z.number().nonnegative(),
+    anzanCount: z.number().int().min(2),
+    anzanDigits: z.number().int().min(1),
+    anzanOnSec: z.number().positive(),
+    anzanGapSec: z.number().nonnegative(),
+    anzanSubtract: z.boolean(),
+    nbackLevel: z.number().int().min(MIN_NBACK_LEVEL).max(MAX_NBACK_LEVEL),
+    nbackTrials: z.number().int().min(1),
+    nbackDigits: z.number().int().min(1),
+    nbackOnSec: z.number().positive(),
+    nbackIntervalSec: z.number().positive(),
+    nbackAutoLevel: z.boolean(),
+    mask: z.enum(["off", "hash", "noise"]),
+    maskSec: z.number().nonnegative(),
+    maskDelaySec: z.number().nonnegative(),
+    modality: z.enum(["visual", "audio", "both"]),
+    voiceLang: z.enum(["ja-JP", "en-US"]),
+    speechIntervalSec: z.number().positive(),
+    itiSec: z.number().nonnegative(),
+    distractor: z.enum(["off", "arithmetic", "target", "countback"]),
+    distractorSec: z.number().positive(),
+    trialsPerSet: z.number().int().min(1),
+    alphabet: z.enum(["digits", "consonants", "hiragana", "katakana", "alphanumeric", "custom"]),
+    customChars: z.string(),
+    numberRange: z.enum(["0-9", "1-9"]),
+    noRepeatDigits: z.boolean(),
+    noAdjacentRepeat: z.boolean(),
+    maxRunLength: z.number().int().nonnegative(),
+    noLeadingZero: z.boolean(),
+    balancedDigits: z.boolean(),
+    seed: z.number().int().min(0).max(MAX_SEED).nullable(),
+    answerMode: z.enum(["keypad", "none"]),
+    recallOrder: z.enum(["forward", "backward", "sorted"]),
+    feedback: z.boolean(),
+    feedbackSec: z.number().nonnegative(),
+    recording: z.boolean(),
+    adaptive: z.enum(["off", "digits", "display", "both"]),
+    adaptiveUp: z.number().int().min(1),
+  })
+  .partial()
+  .passthrough()
+
+const historyRecordSchema = z
+  .object({
+    timestamp: z.number(),
+    settings: settingsSchema,
+    results: z.array(z.object({ isCorrect: z.boolean() }).passthrough()),
+    total: z.number().int().nonnegative(),
+    correct: z.number().int().nonnegative(),
+    schemaVersion: z.number().int().min(1).max(HISTORY_RECORD_VERSION).optional(),
+  })
+  .passthrough()
+
+const presetSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  settings: settingsSchema,
+})
+
+const programSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  restSec: z.number().nonnegative(),
+  blocks: z
+    .array(
+      z.object({
+        overrides: settingsSchema,
+        minAccuracy: z.number(),
+        onFail: z.enum(["repeat", "next", "end"]),
+        maxAttempts: z.number().int().positive(),
+      }),
+    )
+    .min(1),
+})
+
+const backupSchema = z.object({
+  app: z.literal(BACKUP_APP),
+  version: z.literal(BACKUP_VERSION),
+  exportedAt: z.number(),
+  profiles: z.array(
+    z.object({
+      id: z.string().min(1),
+      name: z.string().min(1),
+      createdAt: z.number(),
+      settings: settingsSchema.nullable(),
+      presets: z.array(presetSchema).optional(),
+      programs: z.array(programSchema).optional(),
+      history: z.array(historyRecordSchema),
+    }),
+  ),
+})
+
+export type Backup = z.infer<typeof backupSchema>
+
+export interface ImportPreviewItem {
+  id: string
+  name: string
+  isNew: boolean
+  incoming: number // バックアップ内の履歴件数
+  added: number // 実際に追加される件数
+  duplicates: number // 既存と timestamp が重複する件数
+  replaced: number // replace で消える既存件数
+}
+
+export interface ImportPlan {
+  backup: Backup
+  mode: ImportMode
+  items: ImportPreviewItem[]
+}
+
+const readSettings = (profileId: string) => {
+  const saved = localStorage.getItem(settingsKey(profileId))
+  if (!saved) return null
+  try {
+    return JSON.parse(saved)
+  } catch (e) {
+    console.error("Settings load error", e)
+    return null
+  }
+}
+
+export const buildBackup = async (profiles: Profile[]): Promise<Backup> => ({
+  app: BACKUP_APP,
+  version: BACKUP_VERSION,
+  exportedAt: Date.now(),
+  profiles: await Promise.all(
+    profiles.map(async (profile) => {
+      const { records } = await loadHistory(profile.id)
+      return {
+        ...profile,
+        settings: readSettings(profile.id),
+        presets: loadPresets(profile.id),
+        programs: loadPrograms(profile.id),
+        history: records.map(({ id, profileId, ...record }) => record as Backup["profiles"][number]["history"][number]),
+      }
+    }),
+  ),
+})
+
+/**
+ * ファイル内容を検証する。失敗時はエラーメッセージを返す。
+ */
+export const parseBackup = (text: string): { ok: true; backup: Backup } | { ok: false; error: string } => {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch (e) {
+    return { ok: false, error: "JSONとして読み込めません" }
+  }
+
+  const parsed = backupSchema.safeParse(json)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    return { ok: false, error: `形式が正しくありません (${issue.path.join(".") || "root"}: ${issue.message})` }
+  }
+  return { ok: true, backup: parsed.data }
+}
+
+export const planImport = async (backup: Backup, profiles: Profile[], mode: ImportMode): Promise<ImportPlan> => {
+  const items = await Promise.all(
+    backup.profiles.map(async (incoming) => {
+      const isNew = !profiles.some((p) => p.id === incoming.id)
+      const existing = isNew ? [] : (await loadHistory(incoming.id)).records
+      const known = new Set(existing.map((r) => r.timestamp))
+      const unique = new Set(incoming.history.map((r) => r.timestamp))
+
+      const added = mode === "replace" ? unique.size : [...unique].filter((t) => !known.has(t)).length
+      return {
+        id: incoming.id,
+        name: incoming.name,
+        isNew,
+        incoming: incoming.history.length,
+        added,
+        duplicates: incoming.history.length - added,
+        replaced: mode === "replace" ? existing.length : 0,
+      }
+    }),
+  )
+  return { backup, mode, items }
+}
+
+// 同じ timestamp のレコードは最初の1件だけ残す
+const dedupe = <T extends { timestamp: number }>(records: T[], known: Set<number> = new Set()) =>
+  records.filter((record) => {
+    if (known.has(record.timestamp)) return false
+    known.add(record.timestamp)
+    return true
+  })
+
+/**
+ * 計画どおりに設定・プリセット・プログラム・履歴を書き込み、更新後のプロフィール一覧を返す。
+ * 履歴の書き込みに失敗した場合は localStorage を変更しない。
+ */
+export const applyImport = async ({ backup, mode }: ImportPlan, profiles: Profile[]) => {
+  const nextProfiles = [...profiles]
+  const writes: HistoryWrite[] = []
+
+  for (const incoming of backup.profiles) {
+    const index = nextProfiles.findIndex((p) => p.id === incoming.id)
+    const isNew = index === -1
+    const profile: Profile = { id: incoming.id, name: incoming.name, createdAt: incoming.createdAt }
+
+    if (isNew) nextProfiles.push(profile)
+    else if (mode === "replace") nextProfiles[index] = profile
+
+    if (mode === "replace" || isNew) {
+      writes.push({ profileId: incoming.id, records: dedupe(incoming.history), replace: true })
+    } else {
+      const { records } = await loadHistory(incoming.id)
+      const known = new Set(records.map((r) => r.timestamp))
+      writes.push({ profileId: incoming.id, records: dedupe(incoming.history, known), replace: false })
+    }
+  }
+
+  await putHistoryRecords(writes)
+
+  for (const incoming of backup.profiles) {
+    const overwrite = mode === "replace" || !profiles.some((p) => p.id === incoming.id)
+    if (!overwrite) continue
+    if (incoming.settings) localStorage.setItem(settingsKey(incoming.id), JSON.stringify(incoming.settings))
+    if (incoming.presets) savePresets(incoming.id, incoming.presets)
+    if (incoming.programs) savePrograms(incoming.id, incoming.programs)
+  }
+  saveProfiles(nextProfiles)
+  return nextProfiles
+}
@@ -0,0 +1,54 @@
+/**
+ * 時刻・タイマーの抽象化
+ * - テストや検証時には偽の実装を差し込めるようにする
+ */
+
+export interface Clock {
+  now: () => number
+  setTimeout: (callback: () => void, ms: number) => number
+  clearTimeout: (id: number) => void
+}
+
+export const browserClock: Clock = {
+  now: () => performance.now(),
+  setTimeout: (callback, ms) => window.setTimeout(callback, ms),
+  clearTimeout: (id) => window.clearTimeout(id),
+}
+
+export interface ManualClock extends Clock {
+  advance: (ms: number) => void // 時刻を進め、期限の来たタイマーを期限の順に実行する
+}
+
+/**
+ * 手動で進める時計（テスト・検証用）。タイマーの中で登録されたタイマーも同じ advance の中で実行する。
+ */
+export const createManualClock = (start = 0): ManualClock => {
+  let time = start
+  let nextId = 1
+  let timers: { id: number; at: number; callback: () => void }[] = []
+
+  const advance = (ms: number) => {
+    const target = time + ms
+    for (;;) {
+      const due = timers.filter((t) => t.at <= target).sort((a, b) => a.at - b.at || a.id - b.id)[0]
+      if (!due) break
+      timers = timers.filter((t) => t !== due)
+      time = due.at
+      due.callback()
+    }
+    time = target
+  }
+
+  return {
+    now: () => time,
+    setTimeout: (callback, ms) => {
+      const id = nextId++
+      timers.push({ id, at: time + Math.max(0, ms), callback })
+      return id
+    },
+    clearTimeout: (id) => {
+      timers = timers.filter((t) => t.id !== id)
+    },
+    advance,
+  }
+}
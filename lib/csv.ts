@@ -0,0 +1,17 @@
+/**
+ * CSV 出力
+ * - RFC 4180 準拠のクォート（カンマ・改行・ダブルクォートを含む項目のみ）
+ * - Excel (日本語環境) で文字化けしないよう UTF-8 BOM を付ける
+ * - 大きな履歴でも壊れないよう data: URI ではなく Blob で作る
+ */
+
+const escapeField = (value: unknown) => {
+  if (value === null || value === undefined) return ""
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const toCsv = (headers: string[], rows: unknown[][]) =>
+  [headers, ...rows].map((row) => row.map(escapeField).join(",")).join("\r\n")
+
+export const csvBlob = (csv: string) => new Blob(["\uFEFF", csv], { type: "text/csv;charset=utf-8" })
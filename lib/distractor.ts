@@ -0,0 +1,65 @@
+import type { Random } from "@/lib/random"
+
+/**
+ * 保持期間の妨害課題（刺激の消去後、回答の前に行い、リハーサルを妨げる）
+ * - arithmetic: 簡単な計算式の正誤判断（"7 + 5 = 13" → 誤り）
+ * - target: 動く標的をタップ（一定時間ごとに位置が変わる）
+ * - countback: 開始の数から COUNTBACK_STEP ずつ引いて入力（1つ前に入力した数を基準に判定する）
+ * - 成績は試行ごとに { items, correct } で記録し、再生の正答とは別に集計する
+ */
+
+export type DistractorType = "arithmetic" | "target" | "countback"
+
+export const DISTRACTOR_LABELS: Record<DistractorType, string> = {
+  arithmetic: "計算の正誤",
+  target: "標的タップ",
+  countback: "逆算",
+}
+
+export interface DistractorRecord {
+  type: DistractorType
+  items: number // 回答した問題・出現した標的・入力した数（標的以外へのタップを含む）
+  correct: number
+}
+
+export interface DistractorSummary {
+  items: number
+  correct: number
+  rate: number | null // 正答率(%)
+}
+
+export interface ArithmeticProblem {
+  text: string
+  isTrue: boolean
+}
+
+export const COUNTBACK_STEP = 3
+export const TARGET_MOVE_MS = 1000
+
+const randomInt = (random: Random, min: number, max: number) => min + Math.floor(random() * (max - min + 1))
+
+/**
+ * 1桁どうしの足し算・引き算（答えは0以上）。半分の確率で答えを1〜2ずらした誤りの式にする。
+ */
+export const createArithmeticProblem = (random: Random): ArithmeticProblem => {
+  const a = randomInt(random, 1, 9)
+  const b = randomInt(random, 1, 9)
+  const isAddition = random() < 0.5 || a < b
+  const answer = isAddition ? a + b : a - b
+  const isTrue = random() < 0.5
+  const offset = randomInt(random, 1, 2) * (random() < 0.5 && answer > 1 ? -1 : 1)
+  return { text: `${a} ${isAddition ? "+" : "−"} ${b} = ${isTrue ? answer : answer + offset}`, isTrue }
+}
+
+export const createCountbackStart = (random: Random) => randomInt(random, 50, 99)
+
+// 画面端に寄りすぎない位置（%）
+export const createTargetPosition = (random: Random) => ({ x: randomInt(random, 10, 90), y: randomInt(random, 10, 90) })
+
+export const summarizeDistractor = (results: { distractor?: DistractorRecord | null }[]): DistractorSummary | null => {
+  const records = results.map((r) => r.distractor).filter((d): d is DistractorRecord => !!d)
+  if (records.length === 0) return null
+  const items = records.reduce((sum, d) => sum + d.items, 0)
+  const correct = records.reduce((sum, d) => sum + d.correct, 0)
+  return { items, correct, rate: items > 0 ? Math.round((correct / items) * 100) : null }
+}
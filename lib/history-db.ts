@@ -0,0 +1,307 @@
+import { historyKey } from "@/lib/profiles"
+
+/**
+ * 実施履歴の IndexedDB ストア
+ * - 1セッション = 1レコードで書き込む（履歴全体を書き直さない）
+ * - DB スキーマは DB_VERSION で管理し、MIGRATIONS を順に適用する
+ * - レコード形式は schemaVersion で管理し、読み込み時に最新形式へ変換する
+ * - 読めないレコード（必須項目の欠落・移行できない schemaVersion）は削除せず quarantine ストアへ退避し、
+ *   書き出し/破棄を選べるようにする
+ * - localStorage (fnt_history:<profileId>) の旧データは初回読み込み時に取り込む
+ *   （読み込みが重なっても二重に取り込まないよう、プロフィールごとに取り込み中の処理を共有する）
+ */
+
+export interface HistoryRecord {
+  id?: number
+  profileId: string
+  schemaVersion: number
+  timestamp: number
+  settings: Record<string, unknown>
+  results: Record<string, unknown>[]
+  total: number
+  correct: number
+  [key: string]: unknown
+}
+
+// 移行前の形式を含むレコード（v1 は localStorage 時代の形式で profileId / schemaVersion なし）
+export type LegacyHistoryRecord = Omit<HistoryRecord, "id" | "profileId" | "schemaVersion"> & {
+  id?: number
+  profileId?: string
+  schemaVersion?: number
+}
+
+export interface QuarantinedRecord {
+  id?: number
+  profileId: string
+  source: "indexeddb" | "localStorage"
+  raw: unknown
+  quarantinedAt: number
+}
+
+const DB_NAME = "fnt"
+const DB_VERSION = 1
+const HISTORY_STORE = "history"
+const QUARANTINE_STORE = "quarantine"
+
+export const HISTORY_RECORD_VERSION = 2
+
+// DB スキーマの移行（キー = 移行後のバージョン）
+const MIGRATIONS: Record<number, (db: IDBDatabase) => void> = {
+  1: (db) => {
+    const history = db.createObjectStore(HISTORY_STORE, { keyPath: "id", autoIncrement: true })
+    history.createIndex("profileId", "profileId")
+    const quarantine = db.createObjectStore(QUARANTINE_STORE, { keyPath: "id", autoIncrement: true })
+    quarantine.createIndex("profileId", "profileId")
+  },
+}
+
+// レコード形式の移行（キー = 移行前のバージョン）
+// v1: localStorage 時代の形式（profileId / schemaVersion なし）
+const RECORD_MIGRATIONS: Record<number, (record: LegacyHistoryRecord, profileId: string) => LegacyHistoryRecord> = {
+  1: (record, profileId) => ({ ...record, profileId, schemaVersion: 2 }),
+}
+
+// schemaVersion がない場合は v1 とみなす
+const recordVersion = (record: { schemaVersion?: unknown }) => record.schemaVersion ?? 1
+
+const isSupportedRecordVersion = (version: unknown) =>
+  Number.isInteger(version) && (version as number) >= 1 && (version as number) <= HISTORY_RECORD_VERSION
+
+const isReadable = (record: unknown): record is LegacyHistoryRecord => {
+  if (!record || typeof record !== "object") return false
+  const r = record as Record<string, unknown>
+  return (
+    typeof r.timestamp === "number" &&
+    !!r.settings &&
+    typeof r.settings === "object" &&
+    Array.isArray(r.results) &&
+    typeof r.total === "number" &&
+    typeof r.correct === "number" &&
+    isSupportedRecordVersion(recordVersion(r))
+  )
+}
+
+// isReadable を満たすレコードだけを渡す（移行できないバージョンは事前に除く）
+const upgradeRecord = (record: LegacyHistoryRecord, profileId: string): HistoryRecord => {
+  let current = record
+  let version = current.schemaVersion ?? 1
+  while (version < HISTORY_RECORD_VERSION) {
+    current = RECORD_MIGRATIONS[version](current, profileId)
+    version = current.schemaVersion ?? 1
+  }
+  return current as HistoryRecord
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+export const openHistoryDb = () => {
+  if (dbPromise) return dbPromise
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available"))
+      return
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = (event) => {
+      for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+        MIGRATIONS[version](request.result)
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+  dbPromise.catch(() => {
+    dbPromise = null
+  })
+  return dbPromise
+}
+
+const quarantine = (tx: IDBTransaction, profileId: string, source: QuarantinedRecord["source"], raw: unknown) =>
+  tx.objectStore(QUARANTINE_STORE).add({ profileId, source, raw, quarantinedAt: Date.now() })
+
+/**
+ * localStorage の旧履歴を1件ずつ取り込み、完了後にキーを削除する。
+ */
+const runLegacyImport = async (db: IDBDatabase, profileId: string) => {
+  const key = historyKey(profileId)
+  const saved = localStorage.getItem(key)
+  if (saved === null) return
+
+  const tx = db.transaction([HISTORY_STORE, QUARANTINE_STORE], "readwrite")
+  const store = tx.objectStore(HISTORY_STORE)
+
+  let records: unknown = null
+  try {
+    records = JSON.parse(saved)
+  } catch (e) {
+    console.error("History load error", e)
+  }
+
+  if (Array.isArray(records)) {
+    records.forEach((record) => {
+      if (isReadable(record)) {
+        const { id, ...rest } = upgradeRecord(record, profileId)
+        store.add(rest)
+      } else {
+        quarantine(tx, profileId, "localStorage", record)
+      }
+    })
+  } else {
+    // 配列として読めない場合は文字列のまま退避する
+    quarantine(tx, profileId, "localStorage", saved)
+  }
+
+  await transactionDone(tx)
+  localStorage.removeItem(key)
+}
+
+// 取り込み中の処理（キーを削除する前に次の読み込みが始まっても同じ処理を待つ）
+const legacyImports = new Map<string, Promise<void>>()
+
+const importLocalStorageHistory = (db: IDBDatabase, profileId: string) => {
+  let pending = legacyImports.get(profileId)
+  if (!pending) {
+    pending = runLegacyImport(db, profileId).finally(() => legacyImports.delete(profileId))
+    legacyImports.set(profileId, pending)
+  }
+  return pending
+}
+
+/**
+ * プロフィールの履歴を読み込む（古い順）。読めないレコードは退避して件数を返す。
+ */
+export const loadHistory = async (profileId: string) => {
+  const db = await openHistoryDb()
+  await importLocalStorageHistory(db, profileId)
+
+  const tx = db.transaction([HISTORY_STORE, QUARANTINE_STORE], "readwrite")
+  const history = tx.objectStore(HISTORY_STORE)
+  const records: HistoryRecord[] = []
+
+  const cursorRequest = history.index("profileId").openCursor(IDBKeyRange.only(profileId))
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result
+    if (!cursor) return
+    const value = cursor.value
+    if (!isReadable(value)) {
+      quarantine(tx, profileId, "indexeddb", value)
+      cursor.delete()
+    } else if (value.schemaVersion !== HISTORY_RECORD_VERSION) {
+      const upgraded = upgradeRecord(value, profileId)
+      cursor.update(upgraded)
+      records.push(upgraded)
+    } else {
+      records.push(value as HistoryRecord)
+    }
+    cursor.continue()
+  }
+
+  const [, quarantined] = await Promise.all([
+    transactionDone(tx),
+    requestToPromise(tx.objectStore(QUARANTINE_STORE).index("profileId").count(IDBKeyRange.only(profileId))),
+  ])
+  records.sort((a, b) => a.timestamp - b.timestamp)
+  return { records, quarantined }
+}
+
+export const addHistoryRecord = async (
+  profileId: string,
+  record: Omit<HistoryRecord, "id" | "profileId" | "schemaVersion">,
+) => {
+  const db = await openHistoryDb()
+  const tx = db.transaction(HISTORY_STORE, "readwrite")
+  const value = { ...record, profileId, schemaVersion: HISTORY_RECORD_VERSION }
+  const [id] = await Promise.all([requestToPromise(tx.objectStore(HISTORY_STORE).add(value)), transactionDone(tx)])
+  return { ...value, id: id as number } as HistoryRecord
+}
+
+export interface HistoryWrite {
+  profileId: string
+  records: LegacyHistoryRecord[]
+  replace: boolean // true なら既存の履歴を先に消す
+}
+
+/**
+ * 複数プロフィールのレコードを1トランザクションで書き込む。
+ * 全レコードを先に検証・変換し、読めないレコードがあれば何も書き込まない。
+ * 書き込みの途中で失敗した場合はトランザクションを中止し、削除も含めて取り消す。
+ */
+export const putHistoryRecords = async (writes: HistoryWrite[]) => {
+  const prepared = writes.map(({ profileId, records, replace }) => ({
+    profileId,
+    replace,
+    values: records.map((record) => {
+      if (!isReadable(record)) throw new Error(`Unreadable history record (profile: ${profileId})`)
+      const { id, ...rest } = upgradeRecord(record, profileId)
+      return { ...rest, profileId }
+    }),
+  }))
+
+  const db = await openHistoryDb()
+  const tx = db.transaction(HISTORY_STORE, "readwrite")
+  const done = transactionDone(tx)
+  done.catch(() => {}) // 失敗は下の await で扱う（中止時の未処理の拒否を出さない）
+  const store = tx.objectStore(HISTORY_STORE)
+
+  try {
+    for (const { profileId, replace, values } of prepared) {
+      if (replace) {
+        const keys = await requestToPromise(store.index("profileId").getAllKeys(IDBKeyRange.only(profileId)))
+        keys.forEach((key) => store.delete(key))
+      }
+      values.forEach((value) => store.add(value))
+    }
+  } catch (e) {
+    try {
+      tx.abort()
+    } catch {
+      // 要求の失敗で既に中止されている
+    }
+    await done.catch(() => {})
+    throw e
+  }
+  await done
+}
+
+const deleteByProfile = async (storeName: string, profileId: string) => {
+  const db = await openHistoryDb()
+  const tx = db.transaction(storeName, "readwrite")
+  const request = tx.objectStore(storeName).index("profileId").openKeyCursor(IDBKeyRange.only(profileId))
+  request.onsuccess = () => {
+    const cursor = request.result
+    if (!cursor) return
+    tx.objectStore(storeName).delete(cursor.primaryKey)
+    cursor.continue()
+  }
+  await transactionDone(tx)
+}
+
+export const clearHistory = async (profileId: string) => {
+  await deleteByProfile(HISTORY_STORE, profileId)
+}
+
+export const loadQuarantined = async (profileId: string) => {
+  const db = await openHistoryDb()
+  const tx = db.transaction(QUARANTINE_STORE, "readonly")
+  const records = await requestToPromise(
+    tx.objectStore(QUARANTINE_STORE).index("profileId").getAll(IDBKeyRange.only(profileId)),
+  )
+  return records as QuarantinedRecord[]
+}
+
+export const clearQuarantined = async (profileId: string) => {
+  await deleteByProfile(QUARANTINE_STORE, profileId)
+}
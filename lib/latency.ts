@@ -0,0 +1,81 @@
+/**
+ * 試行ごとの時刻記録（performance.now() 基準, ms）
+ * - stimulusOnset / stimulusOffset: 刺激の表示開始・終了
+ * - answerStart: ANSWER フェーズ開始
+ * - firstKey / keys: 最初のキー入力・全キー入力
+ * - confirm: 確定ボタン押下
+ * - anticipations: ANSWER 以外の段階や一時停止中に押された回答キー（受け付けずに記録のみ）
+ *   FEEDBACK 中のキーは次の試行に phase: "FEEDBACK" として記録する
+ */
+
+export interface KeyEvent {
+  key: string
+  t: number
+}
+
+export interface AnticipatoryKey extends KeyEvent {
+  phase: string
+  paused: boolean
+}
+
+export interface TrialTiming {
+  stimulusOnset: number | null
+  stimulusOffset: number | null
+  answerStart: number | null
+  firstKey: number | null
+  keys: KeyEvent[]
+  confirm: number | null
+  anticipations: AnticipatoryKey[]
+}
+
+export interface LatencySummary {
+  firstKeyMs: number | null
+  responseMs: number | null
+}
+
+export const createTrialTiming = (): TrialTiming => ({
+  stimulusOnset: null,
+  stimulusOffset: null,
+  answerStart: null,
+  firstKey: null,
+  keys: [],
+  confirm: null,
+  anticipations: [],
+})
+
+// 結果に記録する時点の写し（記録した後のキー入力が混ざらないよう配列も複製する）
+export const snapshotTiming = (timing: TrialTiming): TrialTiming => ({
+  ...timing,
+  keys: [...timing.keys],
+  anticipations: [...timing.anticipations],
+})
+
+// 0.1ms 単位に丸めた高分解能時刻
+export const now = () => Math.round(performance.now() * 10) / 10
+
+export const median = (values: number[]) => {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  const value = sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid]
+  return Math.round(value)
+}
+
+// ANSWER 開始から最初のキー入力まで
+export const firstKeyLatency = (timing: TrialTiming) =>
+  timing.answerStart != null && timing.firstKey != null ? timing.firstKey - timing.answerStart : null
+
+// ANSWER 開始から確定まで
+export const responseTime = (timing: TrialTiming) =>
+  timing.answerStart != null && timing.confirm != null ? timing.confirm - timing.answerStart : null
+
+export const summarizeLatency = (results: { timing?: TrialTiming | null }[]): LatencySummary => {
+  const timings = results.map((r) => r.timing).filter((t): t is TrialTiming => !!t)
+  const collect = (fn: (t: TrialTiming) => number | null) =>
+    timings.map(fn).filter((v): v is number => v != null)
+
+  return {
+    firstKeyMs: median(collect(firstKeyLatency)),
+    responseMs: median(collect(responseTime)),
+  }
+}
@@ -0,0 +1,137 @@
+import type { Random } from "@/lib/random"
+import { median } from "@/lib/latency"
+
+/**
+ * N-back 課題
+ * - 1桁（または短い数）を1つずつ連続して見せ、N個前と同じなら「一致」を押す
+ * - 一致（ターゲット）は各項目を N 個前と比べて決める。再実施で項目列だけを渡しても同じ判定になる
+ * - 各試行を hit / miss / falseAlarm / correctRejection に分類し、d′ を求める
+ * - d′ の計算では率が 0 / 1 にならないよう対数線形補正（各度数に 0.5 を加える）を使う
+ * - 自動調整: セット正答率で次のセットの N を上下させる
+ */
+
+export type NbackOutcome = "hit" | "miss" | "falseAlarm" | "correctRejection"
+
+export interface NbackOptions {
+  length: number
+  level: number // N
+  digits: number // 1項目の桁数
+}
+
+export interface NbackSummary {
+  level: number
+  hits: number
+  misses: number
+  falseAlarms: number
+  correctRejections: number
+  dPrime: number
+  hitRtMs: number | null // 一致への反応時間（刺激の表示開始から）の中央値
+}
+
+export const NBACK_OUTCOME_LABELS: Record<NbackOutcome, string> = {
+  hit: "ヒット",
+  miss: "見逃し",
+  falseAlarm: "誤反応",
+  correctRejection: "正棄却",
+}
+
+export const MIN_NBACK_LEVEL = 1
+export const MAX_NBACK_LEVEL = 9
+
+const MATCH_RATE = 0.3 // 一致を作れる位置で一致にする確率
+const LEVEL_UP_ACCURACY = 90 // 以上で N+1
+const LEVEL_DOWN_ACCURACY = 70 // 未満で N-1
+
+export const isNbackTarget = (items: string[], index: number, level: number) =>
+  index >= level && items[index] === items[index - level]
+
+export const generateNbackSequence = ({ length, level, digits }: NbackOptions, random: Random) => {
+  const min = digits <= 1 ? 0 : 10 ** (digits - 1)
+  const max = 10 ** digits - 1
+  const pick = () => String(min + Math.floor(random() * (max - min + 1)))
+
+  const items: string[] = []
+  for (let i = 0; i < length; i++) {
+    if (i < level) {
+      items.push(pick())
+    } else if (random() < MATCH_RATE) {
+      items.push(items[i - level])
+    } else {
+      let item = pick()
+      while (item === items[i - level]) item = pick()
+      items.push(item)
+    }
+  }
+  return items
+}
+
+export const classifyNback = (isTarget: boolean, responded: boolean): NbackOutcome =>
+  isTarget ? (responded ? "hit" : "miss") : responded ? "falseAlarm" : "correctRejection"
+
+// 標準正規分布の逆関数（Acklam の近似, 相対誤差 1e-9 程度）
+const ACKLAM_A = [
+  -39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239,
+]
+const ACKLAM_B = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572, 1]
+const ACKLAM_C = [
+  -0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968,
+  2.938163982698783,
+]
+const ACKLAM_D = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416, 1]
+const P_LOW = 0.02425
+
+// 係数を高次から並べた多項式の値（ホーナー法）
+const polynomial = (coefficients: number[], x: number) => coefficients.reduce((sum, k) => sum * x + k, 0)
+
+const inverseNormal = (p: number) => {
+  if (p < P_LOW || p > 1 - P_LOW) {
+    const q = Math.sqrt(-2 * Math.log(Math.min(p, 1 - p)))
+    const tail = polynomial(ACKLAM_C, q) / polynomial(ACKLAM_D, q)
+    return p < P_LOW ? tail : -tail
+  }
+  const q = p - 0.5
+  const r = q * q
+  return (polynomial(ACKLAM_A, r) * q) / polynomial(ACKLAM_B, r)
+}
+
+export const dPrime = (hits: number, misses: number, falseAlarms: number, correctRejections: number) => {
+  const hitRate = (hits + 0.5) / (hits + misses + 1)
+  const falseAlarmRate = (falseAlarms + 0.5) / (falseAlarms + correctRejections + 1)
+  return Math.round((inverseNormal(hitRate) - inverseNormal(falseAlarmRate)) * 100) / 100
+}
+
+export const summarizeNback = (
+  results: { nback?: NbackOutcome; nbackRtMs?: number | null }[],
+  level: number,
+): NbackSummary => {
+  const count = (outcome: NbackOutcome) => results.filter((r) => r.nback === outcome).length
+  const hits = count("hit")
+  const misses = count("miss")
+  const falseAlarms = count("falseAlarm")
+  const correctRejections = count("correctRejection")
+  const hitRts = results
+    .filter((r) => r.nback === "hit" && r.nbackRtMs != null)
+    .map((r) => r.nbackRtMs as number)
+
+  return {
+    level,
+    hits,
+    misses,
+    falseAlarms,
+    correctRejections,
+    dPrime: dPrime(hits, misses, falseAlarms, correctRejections),
+    hitRtMs: median(hitRts),
+  }
+}
+
+/**
+ * セットの正答率（ヒット + 正棄却の割合）から次のセットの N を決める。
+ */
+export const nextNbackLevel = (summary: NbackSummary) => {
+  const total = summary.hits + summary.misses + summary.falseAlarms + summary.correctRejections
+  if (total === 0) return summary.level
+  const accuracy = ((summary.hits + summary.correctRejections) / total) * 100
+  if (accuracy >= LEVEL_UP_ACCURACY) return Math.min(MAX_NBACK_LEVEL, summary.level + 1)
+  if (accuracy < LEVEL_DOWN_ACCURACY) return Math.max(MIN_NBACK_LEVEL, summary.level - 1)
+  return summary.level
+}
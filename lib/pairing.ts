@@ -0,0 +1,114 @@
+import type { SessionPhase } from "@/lib/session"
+import type { VerbalScore } from "@/lib/scoring"
+
+/**
+ * 検査者画面と訓練者画面の連動 (BroadcastChannel)
+ * - 同じ端末・同じブラウザで開いた2つのウィンドウの間でメッセージをやりとりする
+ * - trainee: 訓練を実施する画面。状態（段階・刺激・結果）を status で送る
+ * - examiner: 検査者用の画面。開始 / 一時停止 / 再開 / スキップ / 口頭回答の判定を command で送る
+ * - 開いたときに hello を送る。受け取った側は hello（reply）を返し、訓練者画面は現在の状態を送り直す
+ * - 自分と同じ役割のウィンドウからのメッセージは無視する
+ * - BroadcastChannel がない環境では null を返す（単独の画面として動作する）
+ */
+
+export type PairRole = "trainee" | "examiner"
+
+// 検査者画面に送る試行結果（訓練者画面の結果から表示に必要な項目だけを取り出す）
+export interface PairedResult {
+  trial: number
+  stimulus: string
+  expected?: string
+  input: string
+  isCorrect: boolean
+  verbalScore?: VerbalScore | null
+  skipped?: boolean
+}
+
+export interface TraineeStatus {
+  running: boolean // 訓練の実施中
+  mode: string
+  answerMode: string
+  phase: SessionPhase | null
+  paused: boolean
+  trialIndex: number
+  trialCount: number
+  stimulus: string
+  expected: string
+  operands: number[] | null // フラッシュ暗算の数の列
+  results: PairedResult[]
+}
+
+export type ExaminerCommand =
+  | { type: "start" }
+  | { type: "pause" }
+  | { type: "resume" }
+  | { type: "skip" }
+  | { type: "score"; verbalScore: VerbalScore; transcript: string }
+
+export type PairMessage =
+  | { type: "hello"; reply: boolean }
+  | { type: "bye" }
+  | { type: "status"; status: TraineeStatus }
+  | { type: "command"; command: ExaminerCommand }
+
+export interface PairChannel {
+  send: (message: PairMessage) => void
+  close: () => void
+}
+
+export const PAIR_CHANNEL_NAME = "fnt-pair"
+export const EXAMINER_PATH = "/examiner"
+
+export const IDLE_STATUS: TraineeStatus = {
+  running: false,
+  mode: "sequence",
+  answerMode: "keypad",
+  phase: null,
+  paused: false,
+  trialIndex: 0,
+  trialCount: 0,
+  stimulus: "",
+  expected: "",
+  operands: null,
+  results: [],
+}
+
+export const toPairedResult = (r: PairedResult): PairedResult => ({
+  trial: r.trial,
+  stimulus: r.stimulus,
+  expected: r.expected ?? r.stimulus,
+  input: r.input,
+  isCorrect: r.isCorrect,
+  verbalScore: r.verbalScore ?? null,
+  skipped: !!r.skipped,
+})
+
+export const isPairingSupported = () => typeof BroadcastChannel !== "undefined"
+
+export const openPairChannel = (role: PairRole, onMessage: (message: PairMessage) => void): PairChannel | null => {
+  if (!isPairingSupported()) return null
+  const channel = new BroadcastChannel(PAIR_CHANNEL_NAME)
+  let closed = false
+
+  const send = (message: PairMessage) => {
+    if (!closed) channel.postMessage({ from: role, message })
+  }
+
+  channel.onmessage = (e: MessageEvent<{ from: PairRole; message: PairMessage }>) => {
+    if (!e.data || e.data.from === role) return
+    if (e.data.message.type === "hello" && !e.data.message.reply) send({ type: "hello", reply: true })
+    onMessage(e.data.message)
+  }
+
+  send({ type: "hello", reply: false })
+
+  return {
+    send,
+    close: () => {
+      if (closed) return
+      send({ type: "bye" })
+      closed = true
+      channel.close()
+    },
+  }
+}
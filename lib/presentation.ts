@@ -0,0 +1,181 @@
+/**
+ * フレーム同期の刺激提示タイマー
+ * - requestAnimationFrame のコールバック内で表示/非表示を切り替え、描画更新に揃える
+ * - 表示していたフレーム数と実測時間を記録する
+ * - 要求時間からのずれが半フレームを超えた場合は deviates=true
+ * - 複数項目の逐次提示（表示 → 空白 → 表示 ...）にも対応。項目ごとに表示時間・直後の空白を指定できる
+ */
+
+export interface FrameScheduler {
+  request: (callback: (t: number) => void) => number
+  cancel: (id: number) => void
+}
+
+export interface PresentationTiming {
+  requestedMs: number
+  measuredMs: number
+  frames: number
+  frameMs: number
+  onset: number
+  offset: number
+  deviates: boolean
+}
+
+export interface SequenceTiming extends PresentationTiming {
+  items: PresentationTiming[]
+}
+
+export interface PresentationOptions {
+  durationMs: number
+  // rAF コールバック内で同期的に呼ばれる。DOM を直接書き換えること（React の state 更新では同じフレームに載らない）
+  onOnset: (t: number) => void
+  onOffset: (t: number) => void
+  onComplete: (timing: PresentationTiming) => void
+  scheduler?: FrameScheduler
+}
+
+export interface SequenceItem {
+  onMs: number
+  gapMs: number // 直後の空白（最後の項目では無視）
+}
+
+export interface SequencePresentationOptions {
+  items: SequenceItem[]
+  onItemOnset: (index: number, t: number) => void
+  onItemOffset: (index: number, t: number) => void
+  onComplete: (timings: PresentationTiming[]) => void
+  scheduler?: FrameScheduler
+}
+
+const DEFAULT_FRAME_MS = 1000 / 60
+
+export const browserFrameScheduler: FrameScheduler = {
+  request: (callback) => requestAnimationFrame(callback),
+  cancel: (id) => cancelAnimationFrame(id),
+}
+
+const round = (value: number) => Math.round(value * 10) / 10
+
+const deviates = (measuredMs: number, requestedMs: number, frameMs: number) =>
+  Math.abs(measuredMs - requestedMs) > frameMs / 2 + 1
+
+/**
+ * 逐次提示した項目群の実測値を1つにまとめる（最初の表示開始〜最後の表示終了）。
+ */
+export const summarizeSequence = (timings: PresentationTiming[], gapMs: number): SequenceTiming => {
+  const first = timings[0]
+  const last = timings[timings.length - 1]
+  return {
+    requestedMs: round(timings.reduce((sum, item) => sum + item.requestedMs, 0) + (timings.length - 1) * gapMs),
+    measuredMs: round(last.offset - first.onset),
+    frames: timings.reduce((sum, item) => sum + item.frames, 0),
+    frameMs: last.frameMs,
+    onset: first.onset,
+    offset: last.offset,
+    deviates: timings.some((item) => item.deviates),
+    items: timings,
+  }
+}
+
+/**
+ * items を順に提示し、キャンセル関数を返す。
+ */
+export const runSequencePresentation = ({
+  items,
+  onItemOnset,
+  onItemOffset,
+  onComplete,
+  scheduler = browserFrameScheduler,
+}: SequencePresentationOptions) => {
+  const timings: PresentationTiming[] = []
+  let index = 0
+  let showing = true // false = 項目間の空白
+  let segmentStart: number | null = null
+  let segmentFrames = 0
+  let intervals = 0
+  let last = 0
+  let frameMs = DEFAULT_FRAME_MS
+  let id = 0
+
+  const startItem = (t: number) => {
+    showing = true
+    segmentStart = t
+    segmentFrames = 0
+    onItemOnset(index, t)
+  }
+
+  const tick = (t: number) => {
+    if (segmentStart === null) {
+      last = t
+      startItem(t)
+      id = scheduler.request(tick)
+      return
+    }
+
+    // 前回のコールバック以降、1フレーム分が表示されていた
+    segmentFrames += 1
+    const interval = t - last
+    if (interval > 0) {
+      intervals += 1
+      frameMs = intervals === 1 ? interval : frameMs * 0.8 + interval * 0.2
+    }
+    last = t
+
+    // 今切り替える場合と次フレームで切り替える場合のうち、要求時間に近い方を選ぶ
+    const elapsed = t - segmentStart
+    const { onMs, gapMs } = items[index]
+    if (elapsed + frameMs / 2 < (showing ? onMs : gapMs)) {
+      id = scheduler.request(tick)
+      return
+    }
+
+    if (!showing) {
+      index += 1
+      startItem(t)
+      id = scheduler.request(tick)
+      return
+    }
+
+    onItemOffset(index, t)
+    timings.push({
+      requestedMs: onMs,
+      measuredMs: round(elapsed),
+      frames: segmentFrames,
+      frameMs: round(frameMs),
+      onset: round(segmentStart),
+      offset: round(t),
+      deviates: deviates(elapsed, onMs, frameMs),
+    })
+
+    if (index + 1 >= items.length) {
+      onComplete(timings)
+      return
+    }
+
+    if (gapMs > 0) {
+      showing = false
+      segmentStart = t
+      segmentFrames = 0
+    } else {
+      // 空白なし: 同じフレームで次の項目に切り替える
+      index += 1
+      startItem(t)
+    }
+    id = scheduler.request(tick)
+  }
+
+  id = scheduler.request(tick)
+  return () => scheduler.cancel(id)
+}
+
+/**
+ * 1項目を durationMs だけ提示し、キャンセル関数を返す。
+ */
+export const runPresentation = ({ durationMs, onOnset, onOffset, onComplete, scheduler }: PresentationOptions) =>
+  runSequencePresentation({
+    items: [{ onMs: durationMs, gapMs: 0 }],
+    onItemOnset: (_, t) => onOnset(t),
+    onItemOffset: (_, t) => onOffset(t),
+    onComplete: (timings) => onComplete(timings[0]),
+    scheduler,
+  })
@@ -0,0 +1,83 @@
+import { presetsKey } from "@/lib/profiles"
+
+/**
+ * 設定プリセット（名前付きの設定の組み合わせ）
+ * - 組み込みプリセットは一部の項目だけを上書きする
+ * - ユーザーのプリセットは保存時の設定をまるごと持つ（記録の ON/OFF は含めない）
+ * - 現在の設定がプリセットの全項目と一致していれば「そのプリセットを使用中」とみなす
+ */
+
+export interface SettingsPreset {
+  id: string
+  name: string
+  settings: Record<string, unknown>
+  builtIn?: boolean
+}
+
+// プリセットに含めない項目
+const EXCLUDED_KEYS = ["recording"]
+
+export const BUILT_IN_PRESETS: SettingsPreset[] = [
+  {
+    id: "builtin_standard",
+    name: "標準 (0.5s / 4桁)",
+    builtIn: true,
+    settings: { mode: "sequence", digits: 4, displaySec: 0.5, trialsPerSet: 5, adaptive: "off" },
+  },
+  {
+    id: "builtin_fast",
+    name: "高速 (0.2s / 5桁)",
+    builtIn: true,
+    settings: { mode: "sequence", digits: 5, displaySec: 0.2, trialsPerSet: 10, adaptive: "off" },
+  },
+  {
+    id: "builtin_slow",
+    name: "じっくり (2s / 8桁)",
+    builtIn: true,
+    settings: { mode: "sequence", digits: 8, displaySec: 2.0, trialsPerSet: 5, adaptive: "off" },
+  },
+  {
+    id: "builtin_span",
+    name: "数唱 (1桁ずつ / 逆唱)",
+    builtIn: true,
+    settings: { mode: "single", digits: 5, digitOnSec: 1.0, digitGapSec: 0.0, recallOrder: "backward", adaptive: "digits" },
+  },
+]
+
+export const createPreset = (name: string, settings: Record<string, unknown>): SettingsPreset => ({
+  id: `preset_${Date.now().toString(36)}`,
+  name,
+  settings: Object.fromEntries(Object.entries(settings).filter(([key]) => !EXCLUDED_KEYS.includes(key))),
+})
+
+export const matchesPreset = (preset: SettingsPreset, settings: Record<string, unknown>) =>
+  Object.entries(preset.settings).every(([key, value]) => settings[key] === value)
+
+/**
+ * 現在の設定に一致するプリセットを返す（最後に適用したものを優先）。
+ */
+export const findActivePreset = (
+  presets: SettingsPreset[],
+  settings: Record<string, unknown>,
+  appliedId: string | null,
+) => {
+  const applied = presets.find((p) => p.id === appliedId)
+  if (applied && matchesPreset(applied, settings)) return applied
+  return presets.find((p) => matchesPreset(p, settings)) ?? null
+}
+
+export const loadPresets = (profileId: string): SettingsPreset[] => {
+  const saved = localStorage.getItem(presetsKey(profileId))
+  if (!saved) return []
+  try {
+    const presets = JSON.parse(saved)
+    return Array.isArray(presets) ? presets : []
+  } catch (e) {
+    console.error("Presets load error", e)
+    return []
+  }
+}
+
+export const savePresets = (profileId: string, presets: SettingsPreset[]) => {
+  localStorage.setItem(presetsKey(profileId), JSON.stringify(presets))
+}
@@ -0,0 +1,87 @@
+/**
+ * ローカルプロフィール（仮名）
+ * - ニックネーム/IDコードのみ。個人情報は保持しない
+ * - 設定・履歴・プログラム・プリセットはプロフィールごとに別キーで保存する
+ * - 旧形式（fnt_settings / fnt_history の単一キー）は既定プロフィールへ移行する
+ */
+
+export interface Profile {
+  id: string
+  name: string
+  createdAt: number
+}
+
+const PROFILES_KEY = "fnt_profiles"
+const ACTIVE_PROFILE_KEY = "fnt_active_profile"
+const LEGACY_SETTINGS_KEY = "fnt_settings"
+const LEGACY_HISTORY_KEY = "fnt_history"
+
+export const DEFAULT_PROFILE_ID = "default"
+export const DEFAULT_PROFILE_NAME = "ゲスト"
+
+export const settingsKey = (profileId: string) => `${LEGACY_SETTINGS_KEY}:${profileId}`
+export const historyKey = (profileId: string) => `${LEGACY_HISTORY_KEY}:${profileId}`
+export const programsKey = (profileId: string) => `fnt_programs:${profileId}`
+export const presetsKey = (profileId: string) => `fnt_presets:${profileId}`
+
+export const createProfile = (name: string): Profile => ({
+  id: `p_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  name,
+  createdAt: Date.now(),
+})
+
+export const saveProfiles = (profiles: Profile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles))
+}
+
+export const saveActiveProfileId = (profileId: string) => {
+  localStorage.setItem(ACTIVE_PROFILE_KEY, profileId)
+}
+
+// 旧形式のデータを既定プロフィールへ移す（プロフィール一覧が未作成のときのみ）
+const migrateLegacyStorage = (): Profile[] => {
+  const profile: Profile = { id: DEFAULT_PROFILE_ID, name: DEFAULT_PROFILE_NAME, createdAt: Date.now() }
+
+  const legacySettings = localStorage.getItem(LEGACY_SETTINGS_KEY)
+  if (legacySettings !== null) {
+    localStorage.setItem(settingsKey(profile.id), legacySettings)
+    localStorage.removeItem(LEGACY_SETTINGS_KEY)
+  }
+
+  const legacyHistory = localStorage.getItem(LEGACY_HISTORY_KEY)
+  if (legacyHistory !== null) {
+    localStorage.setItem(historyKey(profile.id), legacyHistory)
+    localStorage.removeItem(LEGACY_HISTORY_KEY)
+  }
+
+  saveProfiles([profile])
+  saveActiveProfileId(profile.id)
+  return [profile]
+}
+
+/**
+ * プロフィール一覧と選択中のIDを読み込む。初回は旧データを移行する。
+ */
+export const loadProfiles = (): { profiles: Profile[]; activeId: string } => {
+  let profiles: Profile[] = []
+  const saved = localStorage.getItem(PROFILES_KEY)
+  if (saved) {
+    try {
+      profiles = JSON.parse(saved)
+    } catch (e) {
+      console.error("Profiles load error", e)
+    }
+  }
+  if (!Array.isArray(profiles) || profiles.length === 0) profiles = migrateLegacyStorage()
+
+  const activeId = localStorage.getItem(ACTIVE_PROFILE_KEY)
+  const active = profiles.find((p) => p.id === activeId) || profiles[0]
+  return { profiles, activeId: active.id }
+}
+
+export const removeProfileData = (profileId: string) => {
+  localStorage.removeItem(settingsKey(profileId))
+  localStorage.removeItem(historyKey(profileId))
+  localStorage.removeItem(programsKey(profileId))
+  localStorage.removeItem(presetsKey(profileId))
+}
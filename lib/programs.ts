@@ -0,0 +1,115 @@
+import { programsKey } from "@/lib/profiles"
+
+/**
+ * 訓練プログラム（複数ブロックの連続実施）
+ * - ブロックごとに設定の上書き（桁数・表示時間・問題数など）と進行条件を持つ
+ * - 進行条件: 正答率が minAccuracy 以上なら次へ。未達なら onFail に従う
+ *   (repeat: maxAttempts 回までやり直し / next: そのまま次へ / end: プログラム終了)
+ * - ブロック間に restSec の休憩を挟む
+ */
+
+export type FailAction = "repeat" | "next" | "end"
+
+export interface ProgramBlock {
+  overrides: Record<string, unknown>
+  minAccuracy: number // %
+  onFail: FailAction
+  maxAttempts: number
+}
+
+export interface TrainingProgram {
+  id: string
+  name: string
+  restSec: number
+  blocks: ProgramBlock[]
+  builtIn?: boolean
+}
+
+export interface BlockEvaluation {
+  accuracy: number
+  passed: boolean
+  next: "advance" | "repeat" | "end"
+}
+
+const block = (overrides: Record<string, unknown>, minAccuracy = 0): ProgramBlock => ({
+  overrides,
+  minAccuracy,
+  onFail: "repeat",
+  maxAttempts: 2,
+})
+
+export const BUILT_IN_PROGRAMS: TrainingProgram[] = [
+  {
+    id: "builtin_4to5",
+    name: "4桁×3 → 5桁×3",
+    restSec: 30,
+    builtIn: true,
+    blocks: [
+      block({ digits: 4, trialsPerSet: 5 }),
+      block({ digits: 4, trialsPerSet: 5 }),
+      block({ digits: 4, trialsPerSet: 5 }),
+      block({ digits: 5, trialsPerSet: 5 }),
+      block({ digits: 5, trialsPerSet: 5 }),
+      block({ digits: 5, trialsPerSet: 5 }),
+    ],
+  },
+  {
+    id: "builtin_step_up",
+    name: "段階アップ (80%で次の桁へ)",
+    restSec: 20,
+    builtIn: true,
+    blocks: [3, 4, 5, 6, 7].map((digits) => ({
+      overrides: { digits, trialsPerSet: 5 },
+      minAccuracy: 80,
+      onFail: "end" as FailAction,
+      maxAttempts: 1,
+    })),
+  },
+  {
+    id: "builtin_speed",
+    name: "スピード (表示時間を短縮)",
+    restSec: 20,
+    builtIn: true,
+    blocks: [1.0, 0.5, 0.3, 0.2].map((displaySec) => block({ digits: 4, displaySec, trialsPerSet: 5 }, 60)),
+  },
+]
+
+const createBlock = (): ProgramBlock => block({ digits: 4, displaySec: 0.5, trialsPerSet: 5 })
+
+export const createProgram = (name: string): TrainingProgram => ({
+  id: `prog_${Date.now().toString(36)}`,
+  name,
+  restSec: 30,
+  blocks: [createBlock()],
+})
+
+export const evaluateBlock = (
+  programBlock: ProgramBlock,
+  results: { isCorrect: boolean }[],
+  attempt: number,
+): BlockEvaluation => {
+  const correct = results.filter((r) => r.isCorrect).length
+  const accuracy = results.length > 0 ? Math.round((correct / results.length) * 100) : 0
+  const passed = accuracy >= programBlock.minAccuracy
+
+  if (passed || programBlock.onFail === "next") return { accuracy, passed, next: "advance" }
+  if (programBlock.onFail === "repeat" && attempt < programBlock.maxAttempts) return { accuracy, passed, next: "repeat" }
+  if (programBlock.onFail === "repeat") return { accuracy, passed, next: "advance" }
+  return { accuracy, passed, next: "end" }
+}
+
+export const loadPrograms = (profileId: string): TrainingProgram[] => {
+  const saved = localStorage.getItem(programsKey(profileId))
+  if (!saved) return []
+  try {
+    const programs = JSON.parse(saved)
+    return Array.isArray(programs) ? programs : []
+  } catch (e) {
+    console.error("Programs load error", e)
+    return []
+  }
+}
+
+export const savePrograms = (profileId: string, programs: TrainingProgram[]) => {
+  localStorage.setItem(programsKey(profileId), JSON.stringify(programs))
+}
@@ -0,0 +1,112 @@
+import { format, startOfDay, startOfWeek, subDays } from "date-fns"
+
+/**
+ * 履歴ダッシュボード用の集計
+ * - 正答率の推移（セッション単位）
+ * - 日ごとの最大通過桁数（正答した試行の実効桁数の最大。フラッシュ暗算・N-back は除く）
+ * - 桁数ごとの最短成功表示時間（数字列モードのみ。単発モードの表示時間は1桁あたりのため比べられない）
+ * - 週ごとの実施回数（月曜始まり）
+ */
+
+interface TrialLike {
+  isCorrect: boolean
+  isVerbal?: boolean
+  verbalScore?: string | null
+  digits?: number
+  displaySec?: number
+}
+
+export interface SessionLike {
+  timestamp: number
+  settings: Record<string, unknown>
+  results: TrialLike[]
+  total: number
+  correct: number
+}
+
+export interface ProgressFilter {
+  rangeDays: number | null // null = 全期間
+  mode: string // 'all' | settings.mode
+  recallOrder: string // 'all' | settings.recallOrder
+}
+
+export const DEFAULT_PROGRESS_FILTER: ProgressFilter = { rangeDays: 30, mode: "all", recallOrder: "all" }
+
+// 保存された設定は形式が保証されないため、型を確かめてから使う
+const settingString = (h: SessionLike, key: string, fallback: string) => {
+  const value = h.settings[key]
+  return typeof value === "string" ? value : fallback
+}
+
+const settingNumber = (h: SessionLike, key: string) => {
+  const value = h.settings[key]
+  return typeof value === "number" ? value : null
+}
+
+const sessionMode = (h: SessionLike) => settingString(h, "mode", "sequence")
+
+export const filterHistory = <T extends SessionLike>(history: T[], filter: ProgressFilter, now = Date.now()) => {
+  const from = filter.rangeDays === null ? 0 : startOfDay(subDays(now, filter.rangeDays - 1)).getTime()
+  return history.filter(
+    (h) =>
+      h.timestamp >= from &&
+      (filter.mode === "all" || sessionMode(h) === filter.mode) &&
+      (filter.recallOrder === "all" || settingString(h, "recallOrder", "forward") === filter.recallOrder),
+  )
+}
+
+// 検査者の判定がない口頭回答（旧形式）は採点されていないため、成功判定の集計からは除外する
+// フラッシュ暗算・N-back の桁数は1項目の桁数で数字列の桁数とは比べられないため、桁数の集計に含めない
+const SPAN_MODES = ["sequence", "single"]
+const scoredSuccesses = (h: SessionLike) => {
+  if (!SPAN_MODES.includes(sessionMode(h))) return []
+  return h.results.filter((r) => r.isCorrect && (!r.isVerbal || r.verbalScore))
+}
+
+export const accuracySeries = (history: SessionLike[]) =>
+  history.map((h) => ({
+    timestamp: h.timestamp,
+    label: format(h.timestamp, "M/d HH:mm"),
+    accuracy: h.total > 0 ? Math.round((h.correct / h.total) * 100) : 0,
+  }))
+
+export const maxDigitsByDay = (history: SessionLike[]) => {
+  const days = new Map<number, number>()
+  history.forEach((h) => {
+    const day = startOfDay(h.timestamp).getTime()
+    scoredSuccesses(h).forEach((r) => {
+      const digits = r.digits ?? settingNumber(h, "digits")
+      if (digits !== null) days.set(day, Math.max(days.get(day) ?? 0, digits))
+    })
+  })
+  return [...days.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([day, maxDigits]) => ({ label: format(day, "M/d"), maxDigits }))
+}
+
+export const shortestDisplayByDigits = (history: SessionLike[]) => {
+  const shortest = new Map<number, number>()
+  history.forEach((h) => {
+    if (sessionMode(h) !== "sequence") return
+    scoredSuccesses(h).forEach((r) => {
+      const digits = r.digits ?? settingNumber(h, "digits")
+      const displaySec = r.displaySec ?? settingNumber(h, "displaySec")
+      if (digits === null || displaySec === null) return
+      shortest.set(digits, Math.min(shortest.get(digits) ?? Infinity, displaySec))
+    })
+  })
+  return [...shortest.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([digits, displaySec]) => ({ label: `${digits}桁`, displaySec }))
+}
+
+export const sessionsByWeek = (history: SessionLike[]) => {
+  const weeks = new Map<number, number>()
+  history.forEach((h) => {
+    const week = startOfWeek(h.timestamp, { weekStartsOn: 1 }).getTime()
+    weeks.set(week, (weeks.get(week) ?? 0) + 1)
+  })
+  return [...weeks.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([week, count]) => ({ label: `${format(week, "M/d")}〜`, count }))
+}
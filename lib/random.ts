@@ -0,0 +1,33 @@
+/**
+ * シード付き擬似乱数（mulberry32）
+ * - 同じシードからは同じ数列を返す。刺激生成の再現に使う
+ * - 試行ごとにシードを派生させ、前の試行の桁数（適応型での変化）に数列が左右されないようにする
+ * - シードは設定画面で入力し直せるよう 0〜MAX_SEED の整数に収める
+ */
+
+export type Random = () => number
+
+export const MAX_SEED = 999999999
+
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * 親シードと番号から子シードを作る（試行・ブロックごとの乱数列用）。
+ */
+export const deriveSeed = (seed: number, index: number) => {
+  let h = (seed ^ Math.imul(index + 1, 0x9e3779b9)) >>> 0
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b)
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35)
+  return ((h ^ (h >>> 16)) >>> 0) % (MAX_SEED + 1)
+}
+
+export const randomSeed = () => Math.floor(Math.random() * (MAX_SEED + 1))
@@ -0,0 +1,28 @@
+/**
+ * 再生順序
+ * - forward: 提示順そのまま
+ * - backward: 逆順（逆唱）
+ * - sorted: 昇順に並べ替え（数唱の並べ替え課題）。sortOrder を渡した場合はその並び順（文字セットの順）
+ */
+
+export type RecallOrder = "forward" | "backward" | "sorted"
+
+export const RECALL_ORDER_LABELS: Record<RecallOrder, string> = {
+  forward: "順唱",
+  backward: "逆唱",
+  sorted: "昇順",
+}
+
+export const expectedAnswer = (stimulus: string, order: RecallOrder, sortOrder?: string[]) => {
+  const chars = stimulus.split("")
+  switch (order) {
+    case "backward":
+      return chars.reverse().join("")
+    case "sorted":
+      return sortOrder
+        ? chars.sort((a, b) => sortOrder.indexOf(a) - sortOrder.indexOf(b)).join("")
+        : chars.sort().join("")
+    default:
+      return stimulus
+  }
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest"
+import { normalizeTranscript, scoreAnswer } from "@/lib/scoring"
+
+const DIGITS = "0123456789".split("")
+
+describe("normalizeTranscript", () => {
+  it("区切りの空白・カンマ・読点を除く", () => {
+    expect(normalizeTranscript("3 9, 5、1", DIGITS)).toBe("3951")
+  })
+
+  it("大文字の文字セットでは英字を大文字にそろえる", () => {
+    expect(normalizeTranscript("a b c", ["A", "B", "C"])).toBe("ABC")
+  })
+
+  it("小文字だけの文字セットでは小文字のまま残し、採点が一致する", () => {
+    const chars = ["a", "b", "x", "y"]
+    const said = normalizeTranscript("a x b", chars)
+    expect(said).toBe("axb")
+    expect(scoreAnswer("axb", said)).toMatchObject({ positionCorrect: 3, editDistance: 0 })
+  })
+
+  it("大文字小文字が混在する文字セットでは大文字を優先する", () => {
+    expect(normalizeTranscript("ab", ["A", "a", "b"])).toBe("Ab")
+  })
+})
@@ -0,0 +1,105 @@
+/**
+ * 部分得点
+ * - positionCorrect: 位置まで一致した文字数
+ * - prefixLength: 先頭から連続して一致した文字数
+ * - editDistance: 編集距離（隣接文字の入れ替えも1操作として数える）
+ * - 口頭回答は検査者が 正答 / 部分正答 / 誤答 で判定する。発話内容が入力されていれば位置ごとの採点も行う
+ */
+
+export type VerbalScore = "correct" | "partial" | "incorrect"
+
+export const VERBAL_SCORE_LABELS: Record<VerbalScore, string> = {
+  correct: "正答",
+  partial: "部分正答",
+  incorrect: "誤答",
+}
+
+export interface VerbalSummary {
+  correct: number
+  partial: number
+  incorrect: number
+}
+
+export interface TrialScore {
+  positionCorrect: number
+  prefixLength: number
+  editDistance: number
+}
+
+export interface ScoreSummary {
+  positionCorrect: number
+  positionTotal: number
+  positionRate: number
+  meanPrefix: number
+  meanEditDistance: number
+}
+
+const editDistance = (a: string, b: string) => {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)),
+  )
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1)
+      }
+    }
+  }
+  return d[a.length][b.length]
+}
+
+export const scoreAnswer = (expected: string, input: string): TrialScore => {
+  let positionCorrect = 0
+  for (let i = 0; i < expected.length; i++) {
+    if (input[i] === expected[i]) positionCorrect += 1
+  }
+
+  let prefixLength = 0
+  while (prefixLength < expected.length && input[prefixLength] === expected[prefixLength]) {
+    prefixLength += 1
+  }
+
+  return { positionCorrect, prefixLength, editDistance: editDistance(expected, input) }
+}
+
+/**
+ * 採点済み試行（score を持つもの）を集計する。口頭回答など未採点の試行は除外。
+ */
+export const summarizeScores = (
+  results: { expected?: string; stimulus: string; score?: TrialScore | null }[],
+): ScoreSummary | null => {
+  const scored = results.filter((r) => r.score)
+  if (scored.length === 0) return null
+
+  const positionCorrect = scored.reduce((sum, r) => sum + r.score!.positionCorrect, 0)
+  const positionTotal = scored.reduce((sum, r) => sum + (r.expected ?? r.stimulus).length, 0)
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length
+
+  return {
+    positionCorrect,
+    positionTotal,
+    positionRate: positionTotal > 0 ? Math.round((positionCorrect / positionTotal) * 100) : 0,
+    meanPrefix: Number(mean(scored.map((r) => r.score!.prefixLength)).toFixed(2)),
+    meanEditDistance: Number(mean(scored.map((r) => r.score!.editDistance)).toFixed(2)),
+  }
+}
+
+// 検査者が入力した発話内容を回答と比べられる形にする
+// 区切りの空白・読点を除き、英字はキー入力と同じく文字セット chars にあれば大文字に、なければ入力どおりにする
+export const normalizeTranscript = (text: string, chars: string[]) =>
+  Array.from(text.replace(/[\s,、]/g, ""))
+    .map((c) => (chars.includes(c.toUpperCase()) ? c.toUpperCase() : c))
+    .join("")
+
+/**
+ * 検査者が判定した口頭回答を集計する。判定のない試行（旧形式の口頭回答など）は除外。
+ */
+export const summarizeVerbal = (results: { verbalScore?: VerbalScore | null }[]): VerbalSummary | null => {
+  const judged = results.filter((r) => r.verbalScore)
+  if (judged.length === 0) return null
+  const count = (score: VerbalScore) => judged.filter((r) => r.verbalScore === score).length
+  return { correct: count("correct"), partial: count("partial"), incorrect: count("incorrect") }
+}
@@ -0,0 +1,344 @@
+import { describe, expect, it } from "vitest"
+import { createManualClock } from "@/lib/clock"
+import { createSession, type SessionEvent, type SessionOptions, type SessionPhase } from "@/lib/session"
+
+interface Trial {
+  index: number
+}
+
+interface Result {
+  index: number
+  answer: string
+}
+
+const PREP_MS = 500
+const ITI_MS = 1000
+const FEEDBACK_MS = 800
+const DISTRACTOR_MS = 3000
+
+const setup = (options: Partial<SessionOptions<Trial, Result>> = {}) => {
+  const clock = createManualClock()
+  const events: SessionEvent<Trial, Result>[] = []
+  const phases: SessionPhase[] = []
+  const session = createSession<Trial, Result>({
+    trials: 2,
+    prepMs: PREP_MS,
+    itiMs: ITI_MS,
+    feedbackMs: FEEDBACK_MS,
+    createTrial: (index) => ({ index }),
+    onEvent: (event) => {
+      events.push(event)
+      if (event.type === "phase") phases.push(event.phase)
+    },
+    clock,
+    ...options,
+  })
+  const phase = () => session.getState().phase
+  const answer = (text = "ok") => session.submit({ index: session.getState().trialIndex, answer: text })
+  // PREP から提示・消去（・妨害課題）を経て ANSWER まで進める
+  const toAnswer = () => {
+    clock.advance(PREP_MS)
+    session.presentationDone()
+    clock.advance(ITI_MS)
+    if (phase() === "DISTRACT") clock.advance(DISTRACTOR_MS)
+  }
+  const finished = () => events.filter((e) => e.type === "finish")
+  return { clock, session, events, phases, phase, answer, toAnswer, finished }
+}
+
+describe("createSession", () => {
+  it("フィードバックありで全試行を進め、finish で全結果を渡す", () => {
+    const { session, clock, phases, answer, toAnswer, finished } = setup()
+    session.start()
+    toAnswer()
+    answer("a")
+    clock.advance(FEEDBACK_MS)
+    toAnswer()
+    answer("b")
+    clock.advance(FEEDBACK_MS)
+
+    expect(phases).toEqual([
+      ...["PREP", "SHOW", "HIDE", "ANSWER", "FEEDBACK"],
+      ...["PREP", "SHOW", "HIDE", "ANSWER", "FEEDBACK"],
+      "DONE",
+    ])
+    expect(finished()).toEqual([
+      {
+        type: "finish",
+        results: [
+          { index: 0, answer: "a" },
+          { index: 1, answer: "b" },
+        ],
+      },
+    ])
+  })
+
+  it("各段階は設定した時間が来るまで次へ進まない", () => {
+    const { session, clock, phase, answer } = setup()
+    session.start()
+    clock.advance(PREP_MS - 1)
+    expect(phase()).toBe("PREP")
+    clock.advance(1)
+    expect(phase()).toBe("SHOW")
+
+    session.presentationDone()
+    clock.advance(ITI_MS - 1)
+    expect(phase()).toBe("HIDE")
+    clock.advance(1)
+    expect(phase()).toBe("ANSWER")
+
+    answer()
+    clock.advance(FEEDBACK_MS - 1)
+    expect(phase()).toBe("FEEDBACK")
+    clock.advance(1)
+    expect(phase()).toBe("PREP")
+  })
+
+  it("段階の切り替えを clock の時刻付きで通知する", () => {
+    const { session, clock, events } = setup()
+    session.start()
+    clock.advance(PREP_MS)
+    const phaseEvents = events.filter((e) => e.type === "phase")
+    expect(phaseEvents).toEqual([
+      { type: "phase", phase: "PREP", trialIndex: 0, t: 0 },
+      { type: "phase", phase: "SHOW", trialIndex: 0, t: PREP_MS },
+    ])
+  })
+
+  it("distractorMs 指定時は HIDE の後に DISTRACT を経て回答へ進む", () => {
+    const { session, clock, phase, phases } = setup({ trials: 1, distractorMs: DISTRACTOR_MS })
+    session.start()
+    clock.advance(PREP_MS)
+    session.presentationDone()
+    clock.advance(ITI_MS)
+    expect(phase()).toBe("DISTRACT")
+    clock.advance(DISTRACTOR_MS - 1)
+    expect(phase()).toBe("DISTRACT")
+    clock.advance(1)
+    expect(phases).toEqual(["PREP", "SHOW", "HIDE", "DISTRACT", "ANSWER"])
+  })
+
+  it("feedbackMs: null では FEEDBACK に入らず次の試行へ進む", () => {
+    const { session, phases, answer, toAnswer, finished } = setup({ feedbackMs: null })
+    session.start()
+    toAnswer()
+    answer("a")
+    toAnswer()
+    answer("b")
+
+    expect(phases).toEqual(["PREP", "SHOW", "HIDE", "ANSWER", "PREP", "SHOW", "HIDE", "ANSWER", "DONE"])
+    expect(finished()[0]).toMatchObject({ results: [{ answer: "a" }, { answer: "b" }] })
+  })
+
+  it("feedbackMs: 0 でも FEEDBACK には入る（null とは区別する）", () => {
+    const { session, clock, phase, answer, toAnswer } = setup({ feedbackMs: 0 })
+    session.start()
+    toAnswer()
+    answer()
+    expect(phase()).toBe("FEEDBACK")
+    clock.advance(0)
+    expect(phase()).toBe("PREP")
+  })
+
+  it("autoSubmit 指定時（回答待ちなしの口頭回答・N-back）は回答段階を省き、フィードバックなしで記録する", () => {
+    const { session, clock, phases, events, finished } = setup({
+      autoSubmit: (trial) => ({ index: trial.index, answer: "auto" }),
+    })
+    session.start()
+    for (let i = 0; i < 2; i++) {
+      clock.advance(PREP_MS)
+      session.presentationDone()
+      clock.advance(ITI_MS)
+    }
+
+    expect(phases).toEqual(["PREP", "SHOW", "HIDE", "PREP", "SHOW", "HIDE", "DONE"])
+    expect(events.filter((e) => e.type === "result")).toHaveLength(2)
+    expect(finished()[0]).toMatchObject({
+      results: [
+        { index: 0, answer: "auto" },
+        { index: 1, answer: "auto" },
+      ],
+    })
+  })
+
+  it("試行ごとに createTrial で作った試行を trial イベントで渡す", () => {
+    const { session, events, answer, toAnswer } = setup({ feedbackMs: null })
+    session.start()
+    toAnswer()
+    answer()
+    expect(events.filter((e) => e.type === "trial")).toEqual([
+      { type: "trial", trialIndex: 0, trial: { index: 0 } },
+      { type: "trial", trialIndex: 1, trial: { index: 1 } },
+    ])
+  })
+
+  describe("一時停止", () => {
+    it("SHOW では一時停止中の presentationDone を無視し、再開で SHOW をやり直す", () => {
+      const { session, clock, phase, events } = setup()
+      session.start()
+      clock.advance(PREP_MS)
+      const entry = session.getState().entry
+
+      session.pause()
+      session.presentationDone()
+      expect(phase()).toBe("SHOW")
+      expect(session.getState().paused).toBe(true)
+
+      session.resume()
+      expect(phase()).toBe("SHOW")
+      expect(session.getState().entry).toBe(entry + 1)
+      expect(events.map((e) => e.type)).toContain("pause")
+      expect(events.map((e) => e.type)).toContain("resume")
+
+      session.presentationDone()
+      expect(phase()).toBe("HIDE")
+    })
+
+    it("HIDE では時間を止め、再開すると ITI を最初から数える", () => {
+      const { session, clock, phase } = setup()
+      session.start()
+      clock.advance(PREP_MS)
+      session.presentationDone()
+      clock.advance(ITI_MS - 100)
+
+      session.pause()
+      clock.advance(ITI_MS * 10)
+      expect(phase()).toBe("HIDE")
+
+      session.resume()
+      clock.advance(ITI_MS - 1)
+      expect(phase()).toBe("HIDE")
+      clock.advance(1)
+      expect(phase()).toBe("ANSWER")
+    })
+
+    it("DISTRACT では時間を止め、再開すると妨害課題を最初からやり直す", () => {
+      const { session, clock, phase } = setup({ distractorMs: DISTRACTOR_MS })
+      session.start()
+      clock.advance(PREP_MS)
+      session.presentationDone()
+      clock.advance(ITI_MS + DISTRACTOR_MS - 100)
+
+      session.pause()
+      clock.advance(DISTRACTOR_MS * 10)
+      expect(phase()).toBe("DISTRACT")
+
+      session.resume()
+      clock.advance(DISTRACTOR_MS - 1)
+      expect(phase()).toBe("DISTRACT")
+      clock.advance(1)
+      expect(phase()).toBe("ANSWER")
+    })
+
+    it("PREP / ANSWER / FEEDBACK では一時停止できない", () => {
+      const { session, clock, phase, answer, toAnswer } = setup()
+      session.start()
+      session.pause()
+      expect(session.getState().paused).toBe(false)
+
+      toAnswer()
+      session.pause()
+      expect(session.getState().paused).toBe(false)
+
+      answer()
+      session.pause()
+      expect(session.getState().paused).toBe(false)
+      clock.advance(FEEDBACK_MS)
+      expect(phase()).toBe("PREP")
+    })
+
+    it("一時停止中は回答を受け付けない", () => {
+      const { session, clock, phase, events } = setup({ distractorMs: DISTRACTOR_MS })
+      session.start()
+      clock.advance(PREP_MS)
+      session.presentationDone()
+      clock.advance(ITI_MS)
+      session.pause()
+      session.submit({ index: 0, answer: "early" })
+      expect(phase()).toBe("DISTRACT")
+      expect(events.filter((e) => e.type === "result")).toHaveLength(0)
+    })
+  })
+
+  describe("回答", () => {
+    it("ANSWER 以外での submit は無視する", () => {
+      const { session, clock, phase, answer, events } = setup()
+      session.start()
+      answer("prep")
+      clock.advance(PREP_MS)
+      answer("show")
+      session.presentationDone()
+      answer("hide")
+      expect(phase()).toBe("HIDE")
+      expect(events.filter((e) => e.type === "result")).toHaveLength(0)
+    })
+  })
+
+  describe("skip", () => {
+    it("実施中の試行を打ち切り、フィードバックなしで次の試行へ進む", () => {
+      const { session, clock, phase, events } = setup()
+      session.start()
+      clock.advance(PREP_MS)
+      session.skip({ index: 0, answer: "skipped" })
+
+      expect(phase()).toBe("PREP")
+      expect(session.getState().trialIndex).toBe(1)
+      expect(events.filter((e) => e.type === "result")).toEqual([
+        { type: "result", result: { index: 0, answer: "skipped" } },
+      ])
+    })
+
+    it("一時停止中でもスキップでき、一時停止を解除する", () => {
+      const { session, clock } = setup({ distractorMs: DISTRACTOR_MS })
+      session.start()
+      clock.advance(PREP_MS)
+      session.presentationDone()
+      session.pause()
+      session.skip({ index: 0, answer: "skipped" })
+      expect(session.getState().paused).toBe(false)
+
+      // 止めていたタイマーが残っていないこと
+      clock.advance(PREP_MS)
+      expect(session.getState()).toMatchObject({ phase: "SHOW", trialIndex: 1 })
+    })
+
+    it("最後の試行をスキップすると終了し、finish に含める", () => {
+      const { session, clock, answer, toAnswer, finished } = setup()
+      session.start()
+      toAnswer()
+      answer("a")
+      clock.advance(FEEDBACK_MS)
+      toAnswer()
+      session.skip({ index: 1, answer: "skipped" })
+
+      expect(session.getState().phase).toBe("DONE")
+      expect(finished()[0]).toMatchObject({ results: [{ answer: "a" }, { answer: "skipped" }] })
+    })
+
+    it("開始前・FEEDBACK・DONE ではスキップしない", () => {
+      const { session, clock, phase, answer, toAnswer, events } = setup({ trials: 1 })
+      session.skip({ index: 0, answer: "before" })
+      expect(events).toHaveLength(0)
+
+      session.start()
+      toAnswer()
+      answer("a")
+      session.skip({ index: 0, answer: "feedback" })
+      expect(phase()).toBe("FEEDBACK")
+
+      clock.advance(FEEDBACK_MS)
+      session.skip({ index: 0, answer: "done" })
+      expect(events.filter((e) => e.type === "result")).toHaveLength(1)
+    })
+  })
+
+  it("dispose 後はタイマーもイベントも止まる", () => {
+    const { session, clock, events } = setup()
+    session.start()
+    const count = events.length
+    session.dispose()
+    clock.advance(PREP_MS * 10)
+    expect(events).toHaveLength(count)
+    expect(session.getState().phase).toBe("PREP")
+  })
+})
@@ -0,0 +1,195 @@
+import { browserClock, type Clock } from "@/lib/clock"
+
+/**
+ * 訓練セッションの進行管理（画面から独立した状態機械）
+ * - PREP → SHOW → HIDE → (DISTRACT) → ANSWER → FEEDBACK → 次の試行の PREP … → DONE
+ * - DISTRACT は妨害課題を行う保持期間。distractorMs 指定時のみ入り、時間が来たら回答へ進む
+ * - React や DOM に依存しない。時刻とタイマーは Clock を差し込む
+ * - SHOW の終了は提示側（画面・音声）が presentationDone() で知らせる
+ * - 結果はエンジンが保持し、終了時に全試行分を finish イベントで渡す
+ * - 一時停止は SHOW / HIDE / DISTRACT のみ。再開するとその段階を最初からやり直す
+ * - skip() は実施中の試行を打ち切り、渡された結果を記録して次の試行へ進む（フィードバックなし）
+ */
+
+export type SessionPhase = "PREP" | "SHOW" | "HIDE" | "DISTRACT" | "ANSWER" | "FEEDBACK" | "DONE"
+
+export const SESSION_PHASE_LABELS: Record<SessionPhase, string> = {
+  PREP: "準備",
+  SHOW: "提示",
+  HIDE: "消去",
+  DISTRACT: "妨害課題",
+  ANSWER: "回答",
+  FEEDBACK: "フィードバック",
+  DONE: "終了",
+}
+
+export interface SessionState<T, R> {
+  phase: SessionPhase
+  trialIndex: number
+  trial: T
+  results: R[]
+  paused: boolean
+  entry: number // 段階に入った回数（再開によるやり直しを区別する）
+}
+
+export type SessionEvent<T, R> =
+  | { type: "trial"; trialIndex: number; trial: T }
+  | { type: "phase"; phase: SessionPhase; trialIndex: number; t: number }
+  | { type: "result"; result: R }
+  | { type: "pause" }
+  | { type: "resume" }
+  | { type: "finish"; results: R[] }
+
+export interface SessionOptions<T, R> {
+  trials: number
+  prepMs: number
+  itiMs: number
+  feedbackMs: number | null // null = フィードバックなし
+  distractorMs?: number | null // null = 妨害課題なし（HIDE から直接回答へ）
+  createTrial: (index: number) => T
+  // 指定時は回答段階を省き、ITI 後にこの結果を自動で記録する（口頭回答で回答待ちなし）
+  autoSubmit?: (trial: T) => R
+  onEvent: (event: SessionEvent<T, R>, state: SessionState<T, R>) => void
+  clock?: Clock
+}
+
+export interface Session<T, R> {
+  start: () => void
+  presentationDone: () => void
+  submit: (result: R) => void
+  skip: (result: R) => void
+  pause: () => void
+  resume: () => void
+  dispose: () => void
+  getState: () => SessionState<T, R>
+}
+
+export const PAUSABLE_PHASES: SessionPhase[] = ["SHOW", "HIDE", "DISTRACT"]
+
+export const createSession = <T, R>({
+  trials,
+  prepMs,
+  itiMs,
+  feedbackMs,
+  distractorMs = null,
+  createTrial,
+  autoSubmit,
+  onEvent,
+  clock = browserClock,
+}: SessionOptions<T, R>): Session<T, R> => {
+  let state: SessionState<T, R> = {
+    phase: "PREP",
+    trialIndex: 0,
+    trial: createTrial(0),
+    results: [],
+    paused: false,
+    entry: 0,
+  }
+  let timer: number | null = null
+  let started = false
+  let disposed = false
+
+  const emit = (event: SessionEvent<T, R>) => {
+    if (!disposed) onEvent(event, state)
+  }
+
+  const clearTimer = () => {
+    if (timer === null) return
+    clock.clearTimeout(timer)
+    timer = null
+  }
+
+  const schedule = (ms: number, next: () => void) => {
+    clearTimer()
+    timer = clock.setTimeout(() => {
+      timer = null
+      next()
+    }, ms)
+  }
+
+  const enter = (phase: SessionPhase) => {
+    state = { ...state, phase, entry: state.entry + 1 }
+    emit({ type: "phase", phase, trialIndex: state.trialIndex, t: clock.now() })
+    runPhase()
+  }
+
+  // SHOW は presentationDone()、ANSWER は submit() を待つ
+  const runPhase = () => {
+    switch (state.phase) {
+      case "PREP":
+        schedule(prepMs, () => enter("SHOW"))
+        break
+      case "HIDE":
+        schedule(itiMs, () => (distractorMs !== null ? enter("DISTRACT") : toAnswer()))
+        break
+      case "DISTRACT":
+        schedule(distractorMs ?? 0, toAnswer)
+        break
+      case "FEEDBACK":
+        schedule(feedbackMs ?? 0, nextTrial)
+        break
+      default:
+        break
+    }
+  }
+
+  const toAnswer = () => (autoSubmit ? record(autoSubmit(state.trial), false) : enter("ANSWER"))
+
+  const nextTrial = () => {
+    if (state.trialIndex + 1 >= trials) {
+      enter("DONE")
+      emit({ type: "finish", results: state.results })
+      return
+    }
+    const trialIndex = state.trialIndex + 1
+    state = { ...state, trialIndex, trial: createTrial(trialIndex) }
+    emit({ type: "trial", trialIndex, trial: state.trial })
+    enter("PREP")
+  }
+
+  const record = (result: R, feedback: boolean) => {
+    state = { ...state, results: [...state.results, result] }
+    emit({ type: "result", result })
+    if (feedback && feedbackMs !== null) enter("FEEDBACK")
+    else nextTrial()
+  }
+
+  return {
+    start: () => {
+      if (started || disposed) return
+      started = true
+      emit({ type: "trial", trialIndex: 0, trial: state.trial })
+      enter("PREP")
+    },
+    presentationDone: () => {
+      if (state.phase === "SHOW" && !state.paused) enter("HIDE")
+    },
+    submit: (result) => {
+      if (state.phase === "ANSWER" && !state.paused) record(result, true)
+    },
+    // FEEDBACK は結果を記録済みのため対象外
+    skip: (result) => {
+      if (!started || state.phase === "FEEDBACK" || state.phase === "DONE") return
+      clearTimer()
+      state = { ...state, paused: false }
+      record(result, false)
+    },
+    pause: () => {
+      if (state.paused || !PAUSABLE_PHASES.includes(state.phase)) return
+      clearTimer()
+      state = { ...state, paused: true }
+      emit({ type: "pause" })
+    },
+    resume: () => {
+      if (!state.paused) return
+      state = { ...state, paused: false }
+      emit({ type: "resume" })
+      enter(state.phase)
+    },
+    dispose: () => {
+      clearTimer()
+      disposed = true
+    },
+    getState: () => state,
+  }
+}
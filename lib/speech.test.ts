@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest"
+import { createManualClock } from "@/lib/clock"
+import { END_FALLBACK_MS, runSpokenSequence, type SpeakCallbacks, type Speaker, type SpeechTiming } from "@/lib/speech"
+
+// 発話の指示を記録し、開始・終了の通知をテストから送れる Speaker
+const createFakeSpeaker = () => {
+  const spoken: { text: string; lang: string; at: number; callbacks: SpeakCallbacks }[] = []
+  let cancelled = 0
+  const clock = createManualClock()
+  const speaker: Speaker = {
+    speak: (text, lang, callbacks = {}) => {
+      spoken.push({ text, lang, at: clock.now(), callbacks })
+    },
+    cancel: () => {
+      cancelled += 1
+    },
+  }
+  return { clock, speaker, spoken, cancelled: () => cancelled }
+}
+
+const INTERVAL_MS = 800
+
+const setup = (text: string | string[]) => {
+  const fake = createFakeSpeaker()
+  const completed: SpeechTiming[] = []
+  const cancel = runSpokenSequence({
+    text,
+    intervalMs: INTERVAL_MS,
+    lang: "ja-JP",
+    onComplete: (timing) => completed.push(timing),
+    speaker: fake.speaker,
+    clock: fake.clock,
+  })
+  return { ...fake, completed, cancel }
+}
+
+describe("runSpokenSequence", () => {
+  it("1文字ずつ intervalMs 間隔で読み上げ、指示時刻を記録する", () => {
+    const { clock, spoken } = setup("395")
+    expect(spoken.map((s) => s.text)).toEqual(["3"])
+
+    clock.advance(INTERVAL_MS - 1)
+    expect(spoken).toHaveLength(1)
+    clock.advance(1)
+    clock.advance(INTERVAL_MS)
+
+    expect(spoken.map((s) => [s.text, s.lang, s.at])).toEqual([
+      ["3", "ja-JP", 0],
+      ["9", "ja-JP", INTERVAL_MS],
+      ["5", "ja-JP", INTERVAL_MS * 2],
+    ])
+  })
+
+  it("配列は要素ごとに読み上げる", () => {
+    const { clock, spoken } = setup(["12", "−5"])
+    clock.advance(INTERVAL_MS)
+    expect(spoken.map((s) => s.text)).toEqual(["12", "−5"])
+  })
+
+  it("最後の要素の発話終了で onComplete を1回だけ呼ぶ", () => {
+    const { clock, spoken, completed } = setup("12")
+    spoken[0].callbacks.onStart?.(3)
+    spoken[0].callbacks.onEnd?.(400)
+    expect(completed).toHaveLength(0)
+
+    clock.advance(INTERVAL_MS)
+    spoken[1].callbacks.onStart?.(INTERVAL_MS + 5)
+    clock.advance(300)
+    spoken[1].callbacks.onEnd?.(clock.now())
+
+    expect(completed).toEqual([
+      {
+        lang: "ja-JP",
+        intervalMs: INTERVAL_MS,
+        scheduled: [0, INTERVAL_MS],
+        started: [3, INTERVAL_MS + 5],
+        end: INTERVAL_MS + 300,
+      },
+    ])
+
+    // 保険のタイマーは止めてある
+    clock.advance(END_FALLBACK_MS * 2)
+    expect(completed).toHaveLength(1)
+  })
+
+  it("onend が届かない場合は最後の指示から END_FALLBACK_MS 後に完了とする", () => {
+    const { clock, completed } = setup("12")
+    clock.advance(INTERVAL_MS)
+    clock.advance(END_FALLBACK_MS - 1)
+    expect(completed).toHaveLength(0)
+
+    clock.advance(1)
+    expect(completed).toHaveLength(1)
+    expect(completed[0]).toMatchObject({ started: [null, null], end: INTERVAL_MS + END_FALLBACK_MS })
+  })
+
+  it("空の刺激はすぐに完了する", () => {
+    const { clock, spoken, completed } = setup("")
+    clock.advance(0)
+    expect(spoken).toHaveLength(0)
+    expect(completed).toHaveLength(1)
+  })
+
+  it("キャンセルすると残りを読み上げず、onComplete も呼ばない", () => {
+    const { clock, spoken, completed, cancel, cancelled } = setup("395")
+    clock.advance(INTERVAL_MS)
+    cancel()
+    expect(cancelled()).toBe(1)
+
+    clock.advance(INTERVAL_MS * 10)
+    expect(spoken.map((s) => s.text)).toEqual(["3", "9"])
+    expect(completed).toHaveLength(0)
+  })
+
+  it("キャンセル後に遅れて届いた onend は無視する", () => {
+    const { clock, spoken, completed, cancel } = setup("1")
+    cancel()
+    spoken[0].callbacks.onEnd?.(clock.now())
+    expect(completed).toHaveLength(0)
+  })
+})
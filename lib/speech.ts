@@ -0,0 +1,127 @@
+import { browserClock, type Clock } from "@/lib/clock"
+
+/**
+ * 音声提示 (Web Speech API)
+ * - 刺激を1文字ずつ一定間隔で読み上げる
+ * - Speaker / Clock を差し替えれば実際の音声出力なしで動作を確認できる
+ */
+
+export type VoiceLang = "ja-JP" | "en-US"
+
+export interface SpeakCallbacks {
+  onStart?: (t: number) => void
+  onEnd?: (t: number) => void
+}
+
+export interface Speaker {
+  speak: (text: string, lang: VoiceLang, callbacks?: SpeakCallbacks) => void
+  cancel: () => void
+}
+
+export interface SpeechTiming {
+  lang: VoiceLang
+  intervalMs: number
+  scheduled: number[] // 各文字の読み上げ指示時刻
+  started: (number | null)[] // 実際に発話が始まった時刻（取得できない環境では null）
+  end: number
+}
+
+export interface SpokenSequenceOptions {
+  text: string | string[] // 文字列は1文字ずつ、配列は要素ごとに読み上げる
+  intervalMs: number
+  lang: VoiceLang
+  onComplete: (timing: SpeechTiming) => void
+  speaker?: Speaker
+  clock?: Clock
+}
+
+// onend が発火しない環境向けの保険（最後の文字の指示からの待ち時間）
+export const END_FALLBACK_MS = 1500
+
+const round = (value: number) => Math.round(value * 10) / 10
+
+export const isSpeechSupported = () =>
+  typeof window !== "undefined" && "speechSynthesis" in window && typeof SpeechSynthesisUtterance !== "undefined"
+
+const findVoice = (lang: VoiceLang) => {
+  const prefix = lang.slice(0, 2)
+  return window.speechSynthesis.getVoices().find((voice) => voice.lang.replace("_", "-").startsWith(prefix)) || null
+}
+
+export const browserSpeaker: Speaker = {
+  speak: (text, lang, callbacks = {}) => {
+    if (!isSpeechSupported()) {
+      callbacks.onEnd?.(performance.now())
+      return
+    }
+    const utterance = new SpeechSynthesisUtterance(text)
+    utterance.lang = lang
+    utterance.voice = findVoice(lang)
+    utterance.onstart = () => callbacks.onStart?.(performance.now())
+    utterance.onend = () => callbacks.onEnd?.(performance.now())
+    utterance.onerror = () => callbacks.onEnd?.(performance.now())
+    window.speechSynthesis.speak(utterance)
+  },
+  cancel: () => {
+    if (isSpeechSupported()) window.speechSynthesis.cancel()
+  },
+}
+
+/**
+ * text を1文字ずつ（配列なら要素ごとに）intervalMs 間隔で読み上げ、キャンセル関数を返す。
+ * 最後の要素の発話終了で onComplete を呼ぶ。
+ */
+export const runSpokenSequence = ({
+  text,
+  intervalMs,
+  lang,
+  onComplete,
+  speaker = browserSpeaker,
+  clock = browserClock,
+}: SpokenSequenceOptions) => {
+  const chars = Array.isArray(text) ? text : text.split("")
+  const scheduled: number[] = []
+  const started: (number | null)[] = chars.map(() => null)
+  const timers: number[] = []
+  let done = false
+
+  const complete = () => {
+    if (done) return
+    done = true
+    timers.forEach((id) => clock.clearTimeout(id))
+    onComplete({
+      lang,
+      intervalMs,
+      scheduled,
+      started: started.map((t) => (t == null ? null : round(t))),
+      end: round(clock.now()),
+    })
+  }
+
+  const speakAt = (index: number) => {
+    scheduled[index] = round(clock.now())
+    const isLast = index === chars.length - 1
+    speaker.speak(chars[index], lang, {
+      onStart: (t) => {
+        started[index] = t
+      },
+      onEnd: isLast ? complete : undefined,
+    })
+    if (isLast) timers.push(clock.setTimeout(complete, Math.max(intervalMs, END_FALLBACK_MS)))
+  }
+
+  if (chars.length === 0) {
+    timers.push(clock.setTimeout(complete, 0))
+  } else {
+    speakAt(0)
+    for (let i = 1; i < chars.length; i++) {
+      timers.push(clock.setTimeout(() => speakAt(i), i * intervalMs))
+    }
+  }
+
+  return () => {
+    done = true
+    timers.forEach((id) => clock.clearTimeout(id))
+    speaker.cancel()
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * 適応型階段法 (n-up / 1-down)
+ * - n回連続正解で難化、1回誤答で易化
+ * - 難化 = 桁数を増やす / 表示時間を短くする
+ * - 閾値は反転点(難化⇔易化の切り替わり)の平均で推定
+ */
+
+export type AdaptiveMode = "off" | "digits" | "display" | "both"
+
+export interface StaircaseLevel {
+  digits: number
+  displaySec: number
+}
+
+export interface StaircaseOptions {
+  mode: AdaptiveMode
+  up: number
+  minDigits: number
+  maxDigits: number
+}
+
+export interface StaircaseState {
+  level: StaircaseLevel
+  initial: StaircaseLevel
+  streak: number
+}
+
+export interface StaircaseThreshold {
+  digits: number
+  displaySec: number
+  reversals: number
+}
+
+// 表示時間の段階（短いほど難しい）
+export const DISPLAY_LADDER = [0.05, 0.1, 0.15, 0.2, 0.3, 0.4, 0.5, 0.75, 1.0, 1.5, 2.0, 3, 5, 10]
+
+// 閾値推定に使う反転点の数（末尾から）
+const THRESHOLD_REVERSALS = 6
+
+const shorterDisplay = (sec: number) => {
+  const candidates = DISPLAY_LADDER.filter((v) => v < sec - 1e-9)
+  return candidates.length > 0 ? candidates[candidates.length - 1] : sec
+}
+
+const longerDisplay = (sec: number) => {
+  const candidate = DISPLAY_LADDER.find((v) => v > sec + 1e-9)
+  return candidate ?? sec
+}
+
+const harder = (level: StaircaseLevel, options: StaircaseOptions): StaircaseLevel => {
+  switch (options.mode) {
+    case "digits":
+      return { ...level, digits: Math.min(options.maxDigits, level.digits + 1) }
+    case "display":
+      return { ...level, displaySec: shorterDisplay(level.displaySec) }
+    case "both":
+      // 桁数を優先して増やし、上限に達したら表示時間を短くする
+      if (level.digits < options.maxDigits) return { ...level, digits: level.digits + 1 }
+      return { ...level, displaySec: shorterDisplay(level.displaySec) }
+    default:
+      return level
+  }
+}
+
+const easier = (level: StaircaseLevel, initial: StaircaseLevel, options: StaircaseOptions): StaircaseLevel => {
+  switch (options.mode) {
+    case "digits":
+      return { ...level, digits: Math.max(options.minDigits, level.digits - 1) }
+    case "display":
+      return { ...level, displaySec: longerDisplay(level.displaySec) }
+    case "both":
+      // 難化と逆順: 短くした表示時間を先に戻し、その後で桁数を減らす
+      if (level.displaySec < initial.displaySec) {
+        return { ...level, displaySec: Math.min(initial.displaySec, longerDisplay(level.displaySec)) }
+      }
+      return { ...level, digits: Math.max(options.minDigits, level.digits - 1) }
+    default:
+      return level
+  }
+}
+
+export const createStaircase = (level: StaircaseLevel): StaircaseState => ({
+  level,
+  initial: level,
+  streak: 0,
+})
+
+export const updateStaircase = (
+  state: StaircaseState,
+  isCorrect: boolean,
+  options: StaircaseOptions,
+): StaircaseState => {
+  if (options.mode === "off") return state
+
+  if (!isCorrect) {
+    return { ...state, level: easier(state.level, state.initial, options), streak: 0 }
+  }
+
+  const streak = state.streak + 1
+  if (streak >= options.up) {
+    return { ...state, level: harder(state.level, options), streak: 0 }
+  }
+  return { ...state, streak }
+}
+
+// 難易度の変化方向: +1 = 難化, -1 = 易化, 0 = 変化なし
+const direction = (from: StaircaseLevel, to: StaircaseLevel) => {
+  if (to.digits !== from.digits) return to.digits > from.digits ? 1 : -1
+  if (to.displaySec !== from.displaySec) return to.displaySec < from.displaySec ? 1 : -1
+  return 0
+}
+
+/**
+ * 試行ごとの実効レベル列から閾値を推定する。
+ * 反転点がなければ null（未収束）。
+ */
+export const estimateThreshold = (levels: StaircaseLevel[]): StaircaseThreshold | null => {
+  const reversals: StaircaseLevel[] = []
+  let lastDirection = 0
+
+  for (let i = 1; i < levels.length; i++) {
+    const d = direction(levels[i - 1], levels[i])
+    if (d === 0) continue
+    if (lastDirection !== 0 && d !== lastDirection) reversals.push(levels[i - 1])
+    lastDirection = d
+  }
+
+  if (reversals.length === 0) return null
+
+  const used = reversals.slice(-THRESHOLD_REVERSALS)
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length
+
+  return {
+    digits: Number(mean(used.map((l) => l.digits)).toFixed(1)),
+    displaySec: Number(mean(used.map((l) => l.displaySec)).toFixed(2)),
+    reversals: reversals.length,
+  }
+}
@@ -0,0 +1,115 @@
+import type { Random } from "@/lib/random"
+
+/**
+ * 刺激列の生成と制約
+ * - 使う文字は pool（文字セット）で渡す。並び順は pool の順とする
+ * - 制約: 同じ文字の再使用なし / 同じ文字の連続なし / 昇順・降順の連なり(例 "123")の長さ上限 / 先頭0なし
+ * - 候補は棄却法で作る（条件を満たすまで作り直す）。判定は satisfiesConstraints に一本化する
+ * - 候補を引くときは位置ごとに明らかに使えない文字を除き、棄却を減らす（一様性は保たれる）
+ * - balancedDigits: セッション内で出現回数の少ない文字を優先し、出現頻度を均す
+ *   （作れないときは試行回数の後半で均等化をあきらめ、他の制約を優先する）
+ * - 上限回数までに作れない場合は制約なしで生成し、satisfied=false を返す（訓練は止めない）
+ */
+
+export interface StimulusConstraints {
+  noRepeatDigits: boolean
+  noAdjacentRepeat: boolean
+  maxRunLength: number // 0 = 制限なし
+  noLeadingZero: boolean
+  balancedDigits: boolean
+}
+
+export interface GeneratedStimulus {
+  stimulus: string
+  satisfied: boolean
+}
+
+const MAX_ATTEMPTS = 1000
+
+// pool 上の位置の差が +1 または -1 で続く最長の連なり（"1234" = 4, "1357" = 1）
+const longestRun = (stimulus: string, pool: string[]) => {
+  let longest = stimulus.length > 0 ? 1 : 0
+  let length = 1
+  let step = 0
+  for (let i = 1; i < stimulus.length; i++) {
+    const diff = pool.indexOf(stimulus[i]) - pool.indexOf(stimulus[i - 1])
+    if (Math.abs(diff) === 1 && diff === step) {
+      length += 1
+    } else {
+      length = Math.abs(diff) === 1 ? 2 : 1
+      step = diff
+    }
+    longest = Math.max(longest, length)
+  }
+  return longest
+}
+
+export const satisfiesConstraints = (stimulus: string, pool: string[], constraints: StimulusConstraints) => {
+  const chars = stimulus.split("")
+  if (constraints.noRepeatDigits && new Set(chars).size !== chars.length) return false
+  if (constraints.noAdjacentRepeat && chars.some((c, i) => i > 0 && c === chars[i - 1])) return false
+  if (constraints.noLeadingZero && chars[0] === "0") return false
+  if (constraints.maxRunLength > 0 && longestRun(stimulus, pool) > constraints.maxRunLength) return false
+  return true
+}
+
+/**
+ * 文字数と文字の種類から、制約を満たせないことが明らかな場合に理由を返す。
+ */
+export const checkConstraints = (digits: number, pool: string[], constraints: StimulusConstraints) => {
+  if (constraints.noRepeatDigits && digits > pool.length) {
+    return `「同じ文字を使わない」では${pool.length}文字までしか作れません（${digits}文字を指定）`
+  }
+  if (constraints.noAdjacentRepeat && digits > 1 && pool.length < 2) {
+    return "「同じ文字を続けない」には2種類以上の文字が必要です"
+  }
+  if (pool.length === 0) return "使える文字がありません"
+  if (constraints.noLeadingZero && pool.every((d) => d === "0")) {
+    return "「先頭を0にしない」では使える文字がありません"
+  }
+  return null
+}
+
+/**
+ * セッション用の生成器を作る（balancedDigits の出現回数はセッション内で持ち越す）。
+ */
+export const createStimulusGenerator = (pool: string[], constraints: StimulusConstraints) => {
+  const counts = new Map(pool.map((d) => [d, 0]))
+
+  const draw = (digits: number, random: Random, useConstraints: boolean, balance: boolean) => {
+    const local = new Map(counts)
+    let stimulus = ""
+    for (let i = 0; i < digits; i++) {
+      let options = pool
+      if (useConstraints) {
+        const allowed = pool.filter(
+          (d) =>
+            !(constraints.noRepeatDigits && stimulus.includes(d)) &&
+            !(constraints.noAdjacentRepeat && stimulus[i - 1] === d) &&
+            !(constraints.noLeadingZero && i === 0 && d === "0"),
+        )
+        if (allowed.length > 0) options = allowed
+        if (balance) {
+          const min = Math.min(...options.map((d) => local.get(d) ?? 0))
+          options = options.filter((d) => (local.get(d) ?? 0) <= min)
+        }
+      }
+      const digit = options[Math.floor(random() * options.length)]
+      local.set(digit, (local.get(digit) ?? 0) + 1)
+      stimulus += digit
+    }
+    return stimulus
+  }
+
+  return (digits: number, random: Random): GeneratedStimulus => {
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const balance = constraints.balancedDigits && attempt < MAX_ATTEMPTS / 2
+      const stimulus = draw(digits, random, true, balance)
+      if (satisfiesConstraints(stimulus, pool, constraints)) {
+        stimulus.split("").forEach((d) => counts.set(d, (counts.get(d) ?? 0) + 1))
+        return { stimulus, satisfied: true }
+      }
+    }
+    return { stimulus: draw(digits, random, false, false), satisfied: false }
+  }
+}